@@ -1,13 +1,17 @@
 import { invokeDenoNodeJSTransformer } from "DNT";
 import { parse as parseJSONC } from "STD_JSONC";
 const jsrManifest = parseJSONC(await Deno.readTextFile(new URL(import.meta.resolve("./jsr.jsonc"))));
+//@ts-ignore Lazy type.
+const { "./cli": entrypointCLI, ...entrypointsScript } = jsrManifest.exports;
 await invokeDenoNodeJSTransformer({
 	copyEntries: [
 		"LICENSE.md",
 		"README.md"
 	],
-	//@ts-ignore Lazy type.
-	entrypointsScript: jsrManifest.exports,
+	entrypointsExecutable: {
+		"symmetric-crypto": entrypointCLI
+	},
+	entrypointsScript,
 	generateDeclarationMap: true,
 	metadata: {
 		//@ts-ignore Lazy type.
@@ -0,0 +1,212 @@
+import {
+	chacha20Poly1305Decrypt,
+	chacha20Poly1305Encrypt,
+	chachaKeyLength,
+	chachaNonceLength,
+	xchacha20Poly1305Decrypt,
+	xchacha20Poly1305Encrypt,
+	xchachaNonceLength
+} from "./_chacha20_poly1305.ts";
+import { SymmetricCryptorFormatError } from "./_error.ts";
+/**
+ * Symmetric crypto algorithm.
+ *
+ * Algorithm `AES-KW` is only able to wrap the data key (i.e.: data which is >= 16 bytes and multiple of 8 bytes), which require the envelope encryption, the threshold encryption, or the stream; The message is not encryptable with it directly.
+ */
+export type SymmetricCryptorAlgorithm =
+	| "AES-CBC"
+	| "AES-CTR"
+	| "AES-GCM"
+	| "AES-KW"
+	| "ChaCha20-Poly1305"
+	| "XChaCha20-Poly1305";
+/**
+ * Cipher of the algorithm which bound to a key.
+ */
+export interface SymmetricCryptorCipher {
+	decrypt(nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array>;
+	encrypt(nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array>;
+}
+export interface SymmetricCryptorAlgorithmEntry {
+	/**
+	 * Whether the algorithm authenticate the data and the additional authenticated data (i.e.: AEAD).
+	 */
+	aead: boolean;
+	/**
+	 * Whether the algorithm authenticate the data.
+	 */
+	authenticated: boolean;
+	/**
+	 * ID of the algorithm, which record in the cipher text header.
+	 */
+	id: number;
+	/**
+	 * Resolve the algorithm of the JSON Web Key, `undefined` when the algorithm is not available in the JSON Web Key.
+	 */
+	jwk(length: number): string | undefined;
+	/**
+	 * Length of the nonce (i.e.: IV, counter), in bytes.
+	 */
+	nonceLength: number;
+	/**
+	 * Usages of the key in the WebCrypto, for the JSON Web Key.
+	 */
+	usages: readonly KeyUsage[];
+	/**
+	 * Import the key.
+	 */
+	import(key: Uint8Array<ArrayBuffer>): Promise<SymmetricCryptorCipher>;
+}
+function entryWebCrypto(id: number, name: "AES-CBC" | "AES-CTR" | "AES-GCM", nonceLength: number): SymmetricCryptorAlgorithmEntry {
+	function resolveParameters(nonce: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): AesCbcParams | AesCtrParams | AesGcmParams {
+		switch (name) {
+			case "AES-CBC":
+				return {
+					name,
+					iv: nonce
+				};
+			case "AES-GCM":
+				return {
+					name,
+					iv: nonce,
+					...((typeof additionalData === "undefined") ? {} : { additionalData })
+				};
+			case "AES-CTR":
+				return {
+					name,
+					counter: nonce,
+					length: 64
+				};
+		}
+	}
+	return {
+		aead: name === "AES-GCM",
+		authenticated: name === "AES-GCM",
+		id,
+		jwk(length: number): string {
+			return `A${length * 8}${name.slice(4)}`;
+		},
+		nonceLength,
+		usages: ["decrypt", "encrypt"],
+		async import(key: Uint8Array<ArrayBuffer>): Promise<SymmetricCryptorCipher> {
+			const cryptoKey: CryptoKey = await crypto.subtle.importKey("raw", key, { name }, false, ["decrypt", "encrypt"]);
+			return {
+				async decrypt(nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array> {
+					return new Uint8Array(await crypto.subtle.decrypt(resolveParameters(nonce, additionalData), cryptoKey, data));
+				},
+				async encrypt(nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array> {
+					return new Uint8Array(await crypto.subtle.encrypt(resolveParameters(nonce, additionalData), cryptoKey, data));
+				}
+			};
+		}
+	};
+}
+// AES-KW only able to wrap the key in the WebCrypto, therefore the data is carry by an extractable HMAC key; The data key is always fit the length requirement, the message is rejected before reach here.
+const entryAESKW: SymmetricCryptorAlgorithmEntry = {
+	aead: false,
+	authenticated: true,
+	id: 4,
+	jwk(length: number): string {
+		return `A${length * 8}KW`;
+	},
+	nonceLength: 0,
+	usages: ["unwrapKey", "wrapKey"],
+	async import(key: Uint8Array<ArrayBuffer>): Promise<SymmetricCryptorCipher> {
+		const cryptoKey: CryptoKey = await crypto.subtle.importKey("raw", key, { name: "AES-KW" }, false, ["unwrapKey", "wrapKey"]);
+		const carrier: HmacImportParams = {
+			name: "HMAC",
+			hash: "SHA-256"
+		};
+		return {
+			async decrypt(_nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+				return new Uint8Array(await crypto.subtle.exportKey("raw", await crypto.subtle.unwrapKey("raw", data, cryptoKey, "AES-KW", carrier, true, ["sign"])));
+			},
+			async encrypt(_nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+				if (!(data.length >= 16 && data.length % 8 === 0)) {
+					throw new RangeError(`Data is not >= 16 bytes and multiple of 8 bytes, which is require by the algorithm \`AES-KW\`!`);
+				}
+				return new Uint8Array(await crypto.subtle.wrapKey("raw", await crypto.subtle.importKey("raw", data, carrier, true, ["sign"]), cryptoKey, "AES-KW"));
+			}
+		};
+	}
+};
+function entryChaCha(id: number, name: "ChaCha20-Poly1305" | "XChaCha20-Poly1305"): SymmetricCryptorAlgorithmEntry {
+	const [decrypt, encrypt]: [typeof chacha20Poly1305Decrypt, typeof chacha20Poly1305Encrypt] = (name === "ChaCha20-Poly1305") ? [chacha20Poly1305Decrypt, chacha20Poly1305Encrypt] : [xchacha20Poly1305Decrypt, xchacha20Poly1305Encrypt];
+	return {
+		aead: true,
+		authenticated: true,
+		id,
+		jwk(length: number): string | undefined {
+			if (length !== chachaKeyLength) {
+				return undefined;
+			}
+			return (name === "ChaCha20-Poly1305") ? "C20P" : "XC20P";
+		},
+		nonceLength: (name === "ChaCha20-Poly1305") ? chachaNonceLength : xchachaNonceLength,
+		usages: ["decrypt", "encrypt"],
+		import(key: Uint8Array<ArrayBuffer>): Promise<SymmetricCryptorCipher> {
+			if (key.length !== chachaKeyLength) {
+				return Promise.reject(new RangeError(`Key material is not ${chachaKeyLength} bytes, which is require by the algorithm \`${name}\`!`));
+			}
+			return Promise.resolve({
+				decrypt(nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array> {
+					return Promise.resolve().then((): Uint8Array => {
+						return decrypt(key, nonce, data, additionalData);
+					});
+				},
+				encrypt(nonce: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array> {
+					return Promise.resolve().then((): Uint8Array => {
+						return encrypt(key, nonce, data, additionalData);
+					});
+				}
+			});
+		}
+	};
+}
+/**
+ * Registry of the algorithms, the ID must not change or reuse as it is record in the cipher text header.
+ */
+export const algorithmsRegistry: ReadonlyMap<SymmetricCryptorAlgorithm, SymmetricCryptorAlgorithmEntry> = new Map<SymmetricCryptorAlgorithm, SymmetricCryptorAlgorithmEntry>([
+	["AES-CBC", entryWebCrypto(1, "AES-CBC", 16)],
+	["AES-CTR", entryWebCrypto(2, "AES-CTR", 16)],
+	["AES-GCM", entryWebCrypto(3, "AES-GCM", 12)],
+	["AES-KW", entryAESKW],
+	["ChaCha20-Poly1305", entryChaCha(5, "ChaCha20-Poly1305")],
+	["XChaCha20-Poly1305", entryChaCha(6, "XChaCha20-Poly1305")]
+]);
+/**
+ * Resolve the entry of the algorithm.
+ * @param {SymmetricCryptorAlgorithm} algorithm Algorithm.
+ * @returns {SymmetricCryptorAlgorithmEntry} Entry of the algorithm.
+ */
+export function resolveAlgorithmEntry(algorithm: SymmetricCryptorAlgorithm): SymmetricCryptorAlgorithmEntry {
+	return algorithmsRegistry.get(algorithm)!;
+}
+/**
+ * Resolve the algorithm from the ID which record in the cipher text header.
+ * @param {number} id ID of the algorithm.
+ * @param {number} [layer] Index of the layer, for the error.
+ * @returns {SymmetricCryptorAlgorithm} Algorithm.
+ */
+export function resolveAlgorithmFromID(id: number, layer?: number): SymmetricCryptorAlgorithm {
+	for (const [algorithm, entry] of algorithmsRegistry.entries()) {
+		if (entry.id === id) {
+			return algorithm;
+		}
+	}
+	throw new SymmetricCryptorFormatError(`Cipher text is using an unknown algorithm ID \`${id}\`!`, { layer });
+}
+/**
+ * Resolve the algorithm from the algorithm of the JSON Web Key, `undefined` when not match.
+ * @param {string} jwkAlgorithm Algorithm of the JSON Web Key.
+ * @param {number} length Length of the key, in bytes.
+ * @returns {SymmetricCryptorAlgorithm | undefined} Algorithm.
+ */
+export function resolveAlgorithmFromJWK(jwkAlgorithm: string, length: number): SymmetricCryptorAlgorithm | undefined {
+	for (const [algorithm, entry] of algorithmsRegistry.entries()) {
+		if (entry.jwk(length) === jwkAlgorithm) {
+			return algorithm;
+		}
+	}
+	return undefined;
+}
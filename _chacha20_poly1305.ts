@@ -0,0 +1,200 @@
+/**
+ * Pure TypeScript implementation of the ChaCha20-Poly1305 (RFC 8439) and the XChaCha20-Poly1305 (draft-irtf-cfrg-xchacha), which are not available in the WebCrypto.
+ */
+const chachaConstants: readonly number[] = [0x61707865, 0x3320646E, 0x79622D32, 0x6B206574];
+export const chachaKeyLength: number = 32;
+export const chachaNonceLength: number = 12;
+export const xchachaNonceLength: number = 24;
+export const poly1305TagLength: number = 16;
+function rotateLeft(value: number, shift: number): number {
+	return (value << shift) | (value >>> (32 - shift));
+}
+function chachaRounds(state: Uint32Array): void {
+	function quarterRound(a: number, b: number, c: number, d: number): void {
+		state[a] += state[b];
+		state[d] = rotateLeft(state[d] ^ state[a], 16);
+		state[c] += state[d];
+		state[b] = rotateLeft(state[b] ^ state[c], 12);
+		state[a] += state[b];
+		state[d] = rotateLeft(state[d] ^ state[a], 8);
+		state[c] += state[d];
+		state[b] = rotateLeft(state[b] ^ state[c], 7);
+	}
+	for (let index: number = 0; index < 10; index += 1) {
+		quarterRound(0, 4, 8, 12);
+		quarterRound(1, 5, 9, 13);
+		quarterRound(2, 6, 10, 14);
+		quarterRound(3, 7, 11, 15);
+		quarterRound(0, 5, 10, 15);
+		quarterRound(1, 6, 11, 12);
+		quarterRound(2, 7, 8, 13);
+		quarterRound(3, 4, 9, 14);
+	}
+}
+function readWords(data: Uint8Array, count: number): Uint32Array {
+	const view: DataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const words: Uint32Array = new Uint32Array(count);
+	for (let index: number = 0; index < count; index += 1) {
+		words[index] = view.getUint32(index * 4, true);
+	}
+	return words;
+}
+function resolveChaChaState(key: Uint8Array, words: Uint32Array): Uint32Array {
+	const state: Uint32Array = new Uint32Array(16);
+	state.set(chachaConstants, 0);
+	state.set(readWords(key, 8), 4);
+	state.set(words, 12);
+	return state;
+}
+/**
+ * XOR the data with the ChaCha20 key stream.
+ * @param {Uint8Array} key Key, 32 bytes.
+ * @param {Uint8Array} nonce Nonce, 12 bytes.
+ * @param {number} counter Initial block counter.
+ * @param {Uint8Array} data Data.
+ * @returns {Uint8Array<ArrayBuffer>} Result.
+ */
+function chacha20(key: Uint8Array, nonce: Uint8Array, counter: number, data: Uint8Array): Uint8Array<ArrayBuffer> {
+	if (Math.ceil(data.length / 64) + counter > 0x100000000) {
+		throw new RangeError(`Data is too large, ChaCha20 block counter is reach the limit!`);
+	}
+	const stateInitial: Uint32Array = resolveChaChaState(key, Uint32Array.of(counter, ...readWords(nonce, 3)));
+	const state: Uint32Array = new Uint32Array(16);
+	const stream: Uint8Array = new Uint8Array(64);
+	const streamView: DataView = new DataView(stream.buffer);
+	const result: Uint8Array<ArrayBuffer> = new Uint8Array(data.length);
+	for (let offset: number = 0; offset < data.length; offset += 64) {
+		state.set(stateInitial);
+		chachaRounds(state);
+		for (let index: number = 0; index < 16; index += 1) {
+			streamView.setUint32(index * 4, (state[index] + stateInitial[index]) >>> 0, true);
+		}
+		const blockLength: number = Math.min(64, data.length - offset);
+		for (let index: number = 0; index < blockLength; index += 1) {
+			result[offset + index] = data[offset + index] ^ stream[index];
+		}
+		stateInitial[12] += 1;
+	}
+	return result;
+}
+/**
+ * Derive the sub key of the XChaCha20 from the key and the first 16 bytes of the nonce.
+ * @param {Uint8Array} key Key, 32 bytes.
+ * @param {Uint8Array} nonce Nonce, 16 bytes.
+ * @returns {Uint8Array<ArrayBuffer>} Sub key, 32 bytes.
+ */
+export function hchacha20(key: Uint8Array, nonce: Uint8Array): Uint8Array<ArrayBuffer> {
+	const state: Uint32Array = resolveChaChaState(key, readWords(nonce, 4));
+	chachaRounds(state);
+	const result: Uint8Array<ArrayBuffer> = new Uint8Array(32);
+	const resultView: DataView = new DataView(result.buffer);
+	for (let index: number = 0; index < 4; index += 1) {
+		resultView.setUint32(index * 4, state[index], true);
+		resultView.setUint32(16 + index * 4, state[12 + index], true);
+	}
+	return result;
+}
+const poly1305Prime: bigint = (1n << 130n) - 5n;
+function readBigUint128(data: Uint8Array): bigint {
+	const view: DataView = new DataView(data.buffer, data.byteOffset, 16);
+	return view.getBigUint64(0, true) | (view.getBigUint64(8, true) << 64n);
+}
+function poly1305(key: Uint8Array, data: Uint8Array): Uint8Array<ArrayBuffer> {
+	const r: bigint = readBigUint128(key.subarray(0, 16)) & 0x0FFFFFFC0FFFFFFC0FFFFFFC0FFFFFFFn;
+	const s: bigint = readBigUint128(key.subarray(16, 32));
+	const block: Uint8Array = new Uint8Array(16);
+	let accumulator: bigint = 0n;
+	for (let offset: number = 0; offset < data.length; offset += 16) {
+		const blockLength: number = Math.min(16, data.length - offset);
+		block.fill(0);
+		block.set(data.subarray(offset, offset + blockLength));
+		accumulator = ((accumulator + readBigUint128(block) + (1n << BigInt(blockLength * 8))) * r) % poly1305Prime;
+	}
+	accumulator = (accumulator + s) & ((1n << 128n) - 1n);
+	const result: Uint8Array<ArrayBuffer> = new Uint8Array(16);
+	const resultView: DataView = new DataView(result.buffer);
+	resultView.setBigUint64(0, accumulator & 0xFFFFFFFFFFFFFFFFn, true);
+	resultView.setBigUint64(8, accumulator >> 64n, true);
+	return result;
+}
+function poly1305AEADTag(key: Uint8Array, nonce: Uint8Array, cipherText: Uint8Array, additionalData: Uint8Array): Uint8Array<ArrayBuffer> {
+	const additionalDataPadded: number = Math.ceil(additionalData.length / 16) * 16;
+	const cipherTextPadded: number = Math.ceil(cipherText.length / 16) * 16;
+	const macData: Uint8Array = new Uint8Array(additionalDataPadded + cipherTextPadded + 16);
+	macData.set(additionalData, 0);
+	macData.set(cipherText, additionalDataPadded);
+	const macDataView: DataView = new DataView(macData.buffer);
+	macDataView.setBigUint64(additionalDataPadded + cipherTextPadded, BigInt(additionalData.length), true);
+	macDataView.setBigUint64(additionalDataPadded + cipherTextPadded + 8, BigInt(cipherText.length), true);
+	return poly1305(chacha20(key, nonce, 0, new Uint8Array(32)), macData);
+}
+function isBytesEqualTimingSafe(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let difference: number = 0;
+	for (let index: number = 0; index < a.length; index += 1) {
+		difference |= a[index] ^ b[index];
+	}
+	return (difference === 0);
+}
+/**
+ * Encrypt the data with the ChaCha20-Poly1305, the tag is append to the cipher text.
+ * @param {Uint8Array} key Key, 32 bytes.
+ * @param {Uint8Array} nonce Nonce, 12 bytes.
+ * @param {Uint8Array} data Data.
+ * @param {Uint8Array} [additionalData] Additional authenticated data.
+ * @returns {Uint8Array<ArrayBuffer>} Cipher text with the tag.
+ */
+export function chacha20Poly1305Encrypt(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array<ArrayBuffer> {
+	const cipherText: Uint8Array<ArrayBuffer> = chacha20(key, nonce, 1, data);
+	const result: Uint8Array<ArrayBuffer> = new Uint8Array(cipherText.length + poly1305TagLength);
+	result.set(cipherText, 0);
+	result.set(poly1305AEADTag(key, nonce, cipherText, additionalData), cipherText.length);
+	return result;
+}
+/**
+ * Decrypt the data with the ChaCha20-Poly1305, the tag is verify before the decryption.
+ * @param {Uint8Array} key Key, 32 bytes.
+ * @param {Uint8Array} nonce Nonce, 12 bytes.
+ * @param {Uint8Array} data Cipher text with the tag.
+ * @param {Uint8Array} [additionalData] Additional authenticated data.
+ * @returns {Uint8Array<ArrayBuffer>} Data.
+ */
+export function chacha20Poly1305Decrypt(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array<ArrayBuffer> {
+	if (data.length < poly1305TagLength) {
+		throw new Error(`Cipher text is truncated!`);
+	}
+	const cipherText: Uint8Array = data.subarray(0, data.length - poly1305TagLength);
+	if (!isBytesEqualTimingSafe(data.subarray(data.length - poly1305TagLength), poly1305AEADTag(key, nonce, cipherText, additionalData))) {
+		throw new Error(`Tag is not match!`);
+	}
+	return chacha20(key, nonce, 1, cipherText);
+}
+function resolveXChaChaParameters(key: Uint8Array, nonce: Uint8Array): [key: Uint8Array, nonce: Uint8Array] {
+	const nonceSub: Uint8Array = new Uint8Array(chachaNonceLength);
+	nonceSub.set(nonce.subarray(16, 24), 4);
+	return [hchacha20(key, nonce.subarray(0, 16)), nonceSub];
+}
+/**
+ * Encrypt the data with the XChaCha20-Poly1305, the tag is append to the cipher text.
+ * @param {Uint8Array} key Key, 32 bytes.
+ * @param {Uint8Array} nonce Nonce, 24 bytes.
+ * @param {Uint8Array} data Data.
+ * @param {Uint8Array} [additionalData] Additional authenticated data.
+ * @returns {Uint8Array<ArrayBuffer>} Cipher text with the tag.
+ */
+export function xchacha20Poly1305Encrypt(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, additionalData?: Uint8Array): Uint8Array<ArrayBuffer> {
+	return chacha20Poly1305Encrypt(...resolveXChaChaParameters(key, nonce), data, additionalData);
+}
+/**
+ * Decrypt the data with the XChaCha20-Poly1305, the tag is verify before the decryption.
+ * @param {Uint8Array} key Key, 32 bytes.
+ * @param {Uint8Array} nonce Nonce, 24 bytes.
+ * @param {Uint8Array} data Cipher text with the tag.
+ * @param {Uint8Array} [additionalData] Additional authenticated data.
+ * @returns {Uint8Array<ArrayBuffer>} Data.
+ */
+export function xchacha20Poly1305Decrypt(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, additionalData?: Uint8Array): Uint8Array<ArrayBuffer> {
+	return chacha20Poly1305Decrypt(...resolveXChaChaParameters(key, nonce), data, additionalData);
+}
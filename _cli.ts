@@ -0,0 +1,337 @@
+import { Buffer } from "node:buffer";
+import {
+	env,
+	stderr,
+	stdin,
+	stdout
+} from "node:process";
+import { parseArgs } from "node:util";
+import {
+	algorithmsRegistry,
+	type SymmetricCryptorAlgorithm
+} from "./_algorithm.ts";
+import {
+	resolveFileSystemDefault,
+	type SymmetricCryptorFileSystem,
+	type SymmetricCryptorFileSystemFileInfo
+} from "./_fs.ts";
+import type { SymmetricCryptorCipherTextCoderDefault } from "./basic.ts";
+import {
+	SymmetricCryptor,
+	type SymmetricCryptorDirectoryReport
+} from "./standard.ts";
+/**
+ * Context of the command line interface, which is replaceable in order to test without the real terminal.
+ */
+export interface SymmetricCryptorCLIContext {
+	/**
+	 * Environment variables.
+	 */
+	env: Readonly<Record<string, string | undefined>>;
+	/**
+	 * Adapter of the file system.
+	 */
+	fileSystem: SymmetricCryptorFileSystem;
+	/**
+	 * Prompt the password without echo.
+	 * @param {string} message Message of the prompt.
+	 * @returns {Promise<string>} Password.
+	 */
+	prompt(message: string): Promise<string>;
+	/**
+	 * Read all of the data from the standard input.
+	 * @returns {Promise<Uint8Array>} Data.
+	 */
+	readStdin(): Promise<Uint8Array>;
+	/**
+	 * Write the message to the standard error.
+	 * @param {string} message Message.
+	 * @returns {void}
+	 */
+	writeStderr(message: string): void;
+	/**
+	 * Write the data to the standard output.
+	 * @param {Uint8Array} data Data.
+	 * @returns {Promise<void>}
+	 */
+	writeStdout(data: Uint8Array): Promise<void>;
+}
+/**
+ * Exit code when the crypto is fail (e.g.: authentication failure, file not found).
+ */
+export const cliExitCodeFailure: number = 1;
+/**
+ * Exit code when the command line is invalid.
+ */
+export const cliExitCodeUsage: number = 2;
+const cliCoders: readonly SymmetricCryptorCipherTextCoderDefault[] = [
+	"base64",
+	"base64url"
+];
+// Decoder of the `Buffer` skip the characters which are not in the alphabet silently, the cipher text must be check before decode.
+const cliCodersPattern: ReadonlyMap<SymmetricCryptorCipherTextCoderDefault, RegExp> = new Map<SymmetricCryptorCipherTextCoderDefault, RegExp>([
+	["base64", /^(?:[\dA-Za-z+/]{4})*(?:[\dA-Za-z+/]{2}==|[\dA-Za-z+/]{3}=)?$/],
+	["base64url", /^(?:[\dA-Za-z_-]{4})*(?:[\dA-Za-z_-]{2,3})?$/]
+]);
+const cliUsage: string = `Usage: symmetric-crypto <encrypt | decrypt> [options] [<path>]
+
+Encrypt or decrypt the data, from the standard input to the standard output when the path is not defined, from the file to the option \`--output\` (or in place) when the path is a file, or the files in the directory in place when the path is a directory.
+
+Options:
+  -a, --algorithm <algorithm>  Algorithm to encrypt, default to \`AES-CBC\`.
+  -c, --coder <coder>          Coder of the cipher text from/to the standard input/output, \`base64\` or \`base64url\`, default to \`base64\`.
+  -t, --times <times>          Layers to encrypt, default to \`1\`.
+  -o, --output <path>          Path of the output file, only for the path is a file; Default to process the file in place.
+  -s, --suffix <suffix>        Suffix of the encrypted file name, only for the path is a directory.
+      --password-env <name>    Get the password from the environment variable.
+      --key-file <path>        Get the key from the file, a trailing new line is ignored.
+  -h, --help                   Show this help.
+
+Password is prompted when neither option \`--password-env\` nor \`--key-file\` is defined.
+
+Exit codes:
+  0  Success.
+  1  Crypto is fail (e.g.: wrong password, cipher text is corrupted).
+  2  Command line is invalid.
+`;
+class SymmetricCryptorCLIUsageError extends Error {
+	get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorCLIUsageError";
+	}
+}
+function promptPasswordTerminal(message: string): Promise<string> {
+	if (!stdin.isTTY) {
+		return Promise.reject(new Error(`Unable to prompt the password, standard input is not a terminal! Use option \`--password-env\` or \`--key-file\` instead.`));
+	}
+	return new Promise<string>((resolve: (value: string) => void, reject: (reason: Error) => void): void => {
+		let password: string = "";
+		function finish(): void {
+			stdin.off("data", listener);
+			stdin.setRawMode(false);
+			stdin.pause();
+			stderr.write("\n");
+		}
+		function listener(chunk: Buffer): void {
+			for (const character of chunk.toString("utf8")) {
+				switch (character) {
+					case "\u0003":
+						finish();
+						reject(new Error(`Prompt is cancelled!`));
+						return;
+					case "\u0004":
+					case "\n":
+					case "\r":
+						finish();
+						resolve(password);
+						return;
+					case "\b":
+					case "\u007F":
+						password = Array.from(password).slice(0, -1).join("");
+						break;
+					default:
+						password += character;
+						break;
+				}
+			}
+		}
+		stderr.write(message);
+		stdin.setRawMode(true);
+		stdin.on("data", listener);
+		stdin.resume();
+	});
+}
+/**
+ * Resolve the context of the command line interface from the current process.
+ * @returns {SymmetricCryptorCLIContext} Context.
+ */
+export function resolveCLIContextDefault(): SymmetricCryptorCLIContext {
+	return {
+		env,
+		fileSystem: resolveFileSystemDefault(),
+		prompt: promptPasswordTerminal,
+		async readStdin(): Promise<Uint8Array> {
+			const chunks: Uint8Array[] = [];
+			for await (const chunk of stdin) {
+				chunks.push((typeof chunk === "string") ? new TextEncoder().encode(chunk) : chunk);
+			}
+			return Uint8Array.from(Buffer.concat(chunks));
+		},
+		writeStderr(message: string): void {
+			stderr.write(message);
+		},
+		writeStdout(data: Uint8Array): Promise<void> {
+			return new Promise<void>((resolve: () => void, reject: (reason: Error) => void): void => {
+				stdout.write(data, (error?: Error | null): void => {
+					if (error) {
+						reject(error);
+					} else {
+						resolve();
+					}
+				});
+			});
+		}
+	};
+}
+async function resolveCLIKey(context: SymmetricCryptorCLIContext, passwordEnv: string | undefined, keyFile: string | undefined): Promise<string | Uint8Array> {
+	if (typeof passwordEnv !== "undefined" && typeof keyFile !== "undefined") {
+		throw new SymmetricCryptorCLIUsageError(`Options \`--password-env\` and \`--key-file\` are mutually exclusive!`);
+	}
+	if (typeof passwordEnv !== "undefined") {
+		const password: string | undefined = context.env[passwordEnv];
+		if (typeof password === "undefined" || password.length === 0) {
+			throw new SymmetricCryptorCLIUsageError(`Environment variable \`${passwordEnv}\` is not defined!`);
+		}
+		return password;
+	}
+	if (typeof keyFile !== "undefined") {
+		let key: Uint8Array = await context.fileSystem.readFile(keyFile);
+		if (key.at(-1) === 0x0A) {
+			key = key.subarray(0, (key.at(-2) === 0x0D) ? -2 : -1);
+		}
+		if (key.length === 0) {
+			throw new SymmetricCryptorCLIUsageError(`Key file \`${keyFile}\` is empty!`);
+		}
+		return Uint8Array.from(key);
+	}
+	const password: string = await context.prompt("Password: ");
+	if (password.length === 0) {
+		throw new SymmetricCryptorCLIUsageError(`Password is empty!`);
+	}
+	return password;
+}
+function reportDirectory(context: SymmetricCryptorCLIContext, report: SymmetricCryptorDirectoryReport): number {
+	for (const { destinationPath, sourcePath } of report.successes) {
+		context.writeStderr(`${sourcePath} -> ${destinationPath}\n`);
+	}
+	for (const { error, sourcePath } of report.failures) {
+		context.writeStderr(`Error: ${sourcePath}: ${(error instanceof Error) ? error.message : String(error)}\n`);
+	}
+	return ((report.failures.length > 0) ? cliExitCodeFailure : 0);
+}
+/**
+ * Invoke the command line interface.
+ * @param {readonly string[]} args Arguments, exclude the executable and the script.
+ * @param {SymmetricCryptorCLIContext} [context] Context, default to the current process.
+ * @returns {Promise<number>} Exit code.
+ */
+export async function invokeCLI(args: readonly string[], context: SymmetricCryptorCLIContext = resolveCLIContextDefault()): Promise<number> {
+	let mode: "decrypt" | "encrypt";
+	let cryptor: SymmetricCryptor;
+	let coder: SymmetricCryptorCipherTextCoderDefault;
+	let path: string | undefined;
+	let output: string | undefined;
+	let suffix: string | undefined;
+	let passwordEnv: string | undefined;
+	let keyFile: string | undefined;
+	try {
+		const { positionals, values } = parseArgs({
+			args: [...args],
+			allowPositionals: true,
+			options: {
+				algorithm: { short: "a", type: "string" },
+				coder: { short: "c", type: "string" },
+				help: { short: "h", type: "boolean" },
+				"key-file": { type: "string" },
+				output: { short: "o", type: "string" },
+				"password-env": { type: "string" },
+				suffix: { short: "s", type: "string" },
+				times: { short: "t", type: "string" }
+			},
+			strict: true
+		});
+		if (values.help) {
+			context.writeStderr(cliUsage);
+			return 0;
+		}
+		const [command, ...paths]: string[] = positionals;
+		if (!(command === "decrypt" || command === "encrypt")) {
+			throw new SymmetricCryptorCLIUsageError((typeof command === "undefined") ? `Command is not defined!` : `\`${command}\` is not a valid command! Only accept these values: decrypt, encrypt`);
+		}
+		if (paths.length > 1) {
+			throw new SymmetricCryptorCLIUsageError(`Only accept 1 path, but got ${paths.length} paths!`);
+		}
+		mode = command;
+		[path] = paths;
+		coder = (values.coder ?? "base64") as SymmetricCryptorCipherTextCoderDefault;
+		if (!cliCoders.includes(coder)) {
+			throw new SymmetricCryptorCLIUsageError(`\`${coder}\` (option \`--coder\`) is not a valid coder! Only accept these values: ${cliCoders.join(", ")}`);
+		}
+		const algorithm: SymmetricCryptorAlgorithm | undefined = values.algorithm as SymmetricCryptorAlgorithm | undefined;
+		if (typeof algorithm !== "undefined" && !algorithmsRegistry.has(algorithm)) {
+			throw new SymmetricCryptorCLIUsageError(`\`${algorithm}\` (option \`--algorithm\`) is not a valid symmetric crypto algorithm! Only accept these values: ${Array.from(algorithmsRegistry.keys()).join(", ")}`);
+		}
+		const times: number = Number(values.times ?? "1");
+		if (!(Number.isSafeInteger(times) && times >= 1)) {
+			throw new SymmetricCryptorCLIUsageError(`\`${values.times}\` (option \`--times\`) is not a number which is integer, safe, and >= 1!`);
+		}
+		output = values.output;
+		suffix = values.suffix;
+		if (typeof path === "undefined" && (typeof output !== "undefined" || typeof suffix !== "undefined")) {
+			throw new SymmetricCryptorCLIUsageError(`Options \`--output\` and \`--suffix\` are only for the path!`);
+		}
+		passwordEnv = values["password-env"];
+		keyFile = values["key-file"];
+		try {
+			cryptor = new SymmetricCryptor({
+				algorithm,
+				key: await resolveCLIKey(context, passwordEnv, keyFile)
+			}, {
+				fileSystem: context.fileSystem,
+				times
+			});
+		} catch (error) {
+			if (error instanceof RangeError || error instanceof TypeError) {
+				throw new SymmetricCryptorCLIUsageError(error.message);
+			}
+			throw error;
+		}
+	} catch (error) {
+		if (error instanceof SymmetricCryptorCLIUsageError || (error instanceof TypeError && (error as TypeError & { code?: string; }).code?.startsWith("ERR_PARSE_ARGS_"))) {
+			context.writeStderr(`Error: ${error.message}\n\n${cliUsage}`);
+			return cliExitCodeUsage;
+		}
+		context.writeStderr(`Error: ${(error instanceof Error) ? error.message : String(error)}\n`);
+		return cliExitCodeFailure;
+	}
+	try {
+		if (typeof path === "undefined") {
+			const data: Uint8Array = await context.readStdin();
+			if (mode === "encrypt") {
+				await context.writeStdout(new TextEncoder().encode(`${Buffer.from(await cryptor.encrypt(data)).toString(coder)}\n`));
+			} else {
+				// Line breaks of the wrapped cipher text are allowed.
+				const text: string = new TextDecoder().decode(data).replace(/\s/g, "");
+				if (!cliCodersPattern.get(coder)!.test(text)) {
+					context.writeStderr(`Error: Standard input is not a valid \`${coder}\` encoded cipher text!\n\n${cliUsage}`);
+					return cliExitCodeUsage;
+				}
+				await context.writeStdout(await cryptor.decrypt(Uint8Array.from(Buffer.from(text, coder))));
+			}
+			return 0;
+		}
+		const pathInfo: SymmetricCryptorFileSystemFileInfo | undefined = await context.fileSystem.stat(path);
+		if (typeof pathInfo === "undefined") {
+			throw new Error(`Path \`${path}\` is not exist!`);
+		}
+		if (pathInfo.isDirectory) {
+			if (typeof output !== "undefined") {
+				context.writeStderr(`Error: Option \`--output\` is not supported for the directory!\n\n${cliUsage}`);
+				return cliExitCodeUsage;
+			}
+			return reportDirectory(context, (mode === "encrypt") ? await cryptor.encryptDirectory(path, { suffix }) : await cryptor.decryptDirectory(path, { suffix }));
+		}
+		if (typeof suffix !== "undefined") {
+			context.writeStderr(`Error: Option \`--suffix\` is only for the directory!\n\n${cliUsage}`);
+			return cliExitCodeUsage;
+		}
+		if (typeof output === "undefined") {
+			await ((mode === "encrypt") ? cryptor.encryptFileInPlace(path) : cryptor.decryptFileInPlace(path));
+		} else {
+			await ((mode === "encrypt") ? cryptor.encryptFile(path, output) : cryptor.decryptFile(path, output));
+		}
+		return 0;
+	} catch (error) {
+		context.writeStderr(`Error: ${(error instanceof Error) ? error.message : String(error)}\n`);
+		return cliExitCodeFailure;
+	}
+}
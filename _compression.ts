@@ -0,0 +1,109 @@
+import { SymmetricCryptorFormatError } from "./_error.ts";
+export type SymmetricCryptorCompressionDefault =
+	| "deflate"
+	| "gzip";
+export const compressionsDefault: readonly SymmetricCryptorCompressionDefault[] = [
+	"deflate",
+	"gzip"
+];
+/**
+ * Custom compression codec.
+ */
+export interface SymmetricCryptorCompressionCustom {
+	/**
+	 * ID of the custom compression codec, which record in the cipher text header, must be non empty and <= 255 bytes. The same codec must be provide on the decryption.
+	 */
+	id: string;
+	/**
+	 * Compress the data.
+	 * @param {Uint8Array} data Data.
+	 * @returns {Uint8Array | Promise<Uint8Array>} Compressed data.
+	 */
+	compress(data: Uint8Array): Uint8Array | Promise<Uint8Array>;
+	/**
+	 * Decompress the data.
+	 * @param {Uint8Array} data Compressed data.
+	 * @returns {Uint8Array | Promise<Uint8Array>} Data.
+	 */
+	decompress(data: Uint8Array): Uint8Array | Promise<Uint8Array>;
+}
+export type SymmetricCryptorCompression = SymmetricCryptorCompressionDefault | SymmetricCryptorCompressionCustom;
+const compressionIDCustom: number = 255;
+function resolveCompressionDefaultID(compression: SymmetricCryptorCompressionDefault): number {
+	return compressionsDefault.indexOf(compression) + 1;
+}
+async function transformBytes(data: Uint8Array, transformer: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+	return new Uint8Array(await new Response(ReadableStream.from([Uint8Array.from(data)]).pipeThrough(transformer)).arrayBuffer());
+}
+/**
+ * Validate the compression option.
+ * @param {SymmetricCryptorCompression | undefined} compression Compression.
+ * @returns {SymmetricCryptorCompression | undefined} Compression.
+ */
+export function resolveCompression(compression: SymmetricCryptorCompression | undefined): SymmetricCryptorCompression | undefined {
+	if (typeof compression === "undefined") {
+		return undefined;
+	}
+	if (typeof compression === "string") {
+		if (!compressionsDefault.includes(compression)) {
+			throw new RangeError(`\`${compression}\` is not a valid compression! Only accept these values: ${compressionsDefault.join(", ")}, custom`);
+		}
+		return compression;
+	}
+	if (!(typeof compression.id === "string" && compression.id.length > 0 && new TextEncoder().encode(compression.id).length <= 255)) {
+		throw new RangeError(`\`${compression.id}\` (parameter \`compression.id\`) is not a string which is non empty, and <= 255 bytes!`);
+	}
+	if (!(typeof compression.compress === "function" && typeof compression.decompress === "function")) {
+		throw new TypeError(`Parameter \`compression.compress\` or \`compression.decompress\` is not a function!`);
+	}
+	return compression;
+}
+/**
+ * Compress the data, and encode the compression into the value of the cipher text header extension.
+ *
+ * Layout:
+ *
+ * - Compression ID (uint8), `255` for the custom compression.
+ * - ID of the custom compression, only for the custom compression.
+ * @param {SymmetricCryptorCompression} compression Compression.
+ * @param {Uint8Array} data Data.
+ * @returns {Promise<{ data: Uint8Array; header: Uint8Array; }>} Compressed data, and the value of the cipher text header extension.
+ */
+export async function compressData(compression: SymmetricCryptorCompression, data: Uint8Array): Promise<{ data: Uint8Array; header: Uint8Array; }> {
+	if (typeof compression === "string") {
+		return {
+			data: await transformBytes(data, new CompressionStream(compression)),
+			header: Uint8Array.of(resolveCompressionDefaultID(compression))
+		};
+	}
+	return {
+		data: await compression.compress(data),
+		header: Uint8Array.from([compressionIDCustom, ...new TextEncoder().encode(compression.id)])
+	};
+}
+/**
+ * Decompress the data base on the value of the cipher text header extension.
+ * @param {SymmetricCryptorCompression | undefined} compression Compression of the symmetric cryptor, for the custom compression.
+ * @param {Uint8Array} header Value of the cipher text header extension.
+ * @param {Uint8Array} data Compressed data.
+ * @returns {Promise<Uint8Array>} Data.
+ */
+export async function decompressData(compression: SymmetricCryptorCompression | undefined, header: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+	const id: number | undefined = header[0];
+	if (id === compressionIDCustom) {
+		const customID: string = new TextDecoder().decode(header.slice(1));
+		if (!(typeof compression === "object" && compression.id === customID)) {
+			throw new SymmetricCryptorFormatError(`Cipher text is using the custom compression \`${customID}\` which is not provided!`);
+		}
+		return await compression.decompress(data);
+	}
+	const compressionDefault: SymmetricCryptorCompressionDefault | undefined = (typeof id === "undefined") ? undefined : compressionsDefault[id - 1];
+	if (typeof compressionDefault === "undefined") {
+		throw new SymmetricCryptorFormatError(`Cipher text is using an unknown compression ID \`${id}\`!`);
+	}
+	try {
+		return await transformBytes(data, new DecompressionStream(compressionDefault));
+	} catch (error) {
+		throw new SymmetricCryptorFormatError(`Unable to decompress the cipher text, the compressed data is corrupted!`, { cause: error });
+	}
+}
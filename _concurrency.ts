@@ -0,0 +1,69 @@
+/**
+ * Resolve the concurrency option.
+ * @param {number} value Value.
+ * @param {string} parameterName Name of the parameter.
+ * @returns {number} Concurrency.
+ */
+export function resolveConcurrency(value: number, parameterName: string): number {
+	if (!(Number.isSafeInteger(value) && value >= 1)) {
+		throw new RangeError(`\`${value}\` (parameter \`${parameterName}\`) is not a number which is integer, safe, and >= 1!`);
+	}
+	return value;
+}
+/**
+ * Map the items with the bounded concurrency, the results are in the same order as the items.
+ * @template {unknown} T
+ * @template {unknown} U
+ * @param {Iterable<T> | AsyncIterable<T>} items Items.
+ * @param {number} concurrency Maximum number of the pending callbacks.
+ * @param {(item: T, index: number) => Promise<U>} callback Callback.
+ * @returns {Promise<U[]>} Results.
+ */
+export async function mapConcurrent<T, U>(items: Iterable<T> | AsyncIterable<T>, concurrency: number, callback: (item: T, index: number) => Promise<U>): Promise<U[]> {
+	const iterator: Iterator<T> | AsyncIterator<T> = (Symbol.asyncIterator in items) ? items[Symbol.asyncIterator]() : items[Symbol.iterator]();
+	const results: U[] = [];
+	let indexNext: number = 0;
+	// Workers pull from the shared iterator, the pull is serialized to support the async iterator.
+	let pull: Promise<unknown> = Promise.resolve();
+	async function next(): Promise<{ index: number; value: T; } | undefined> {
+		const current: Promise<{ index: number; value: T; } | undefined> = pull.then(async (): Promise<{ index: number; value: T; } | undefined> => {
+			const result: IteratorResult<T> = await iterator.next();
+			if (result.done) {
+				return undefined;
+			}
+			const index: number = indexNext;
+			indexNext += 1;
+			return {
+				index,
+				value: result.value
+			};
+		});
+		pull = current.catch((): void => { });
+		return await current;
+	}
+	// First failure, once set, the workers stop to pull the new items.
+	let failure: { error: unknown; } | undefined;
+	async function worker(): Promise<void> {
+		while (typeof failure === "undefined") {
+			try {
+				const item: { index: number; value: T; } | undefined = await next();
+				if (typeof item === "undefined" || typeof failure !== "undefined") {
+					return;
+				}
+				results[item.index] = await callback(item.value, item.index);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	}
+	const workers: Promise<void>[] = [];
+	for (let index: number = 0; index < concurrency; index += 1) {
+		workers.push(worker());
+	}
+	// Workers never reject, wait for all of the pending callbacks before settle.
+	await Promise.all(workers);
+	if (typeof failure !== "undefined") {
+		throw failure.error;
+	}
+	return results;
+}
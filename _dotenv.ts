@@ -0,0 +1,123 @@
+export interface DotEnvLineEntry {
+	type: "entry";
+	/**
+	 * Whether the entry is prefixed with `export`.
+	 */
+	export: boolean;
+	key: string;
+	/**
+	 * Original text of the line, which is write back as is when the entry is not changed.
+	 */
+	line: string;
+	value: string;
+}
+export interface DotEnvLineOther {
+	type: "other";
+	/**
+	 * Original text of the line (e.g.: comment, empty line).
+	 */
+	line: string;
+}
+export type DotEnvLine = DotEnvLineEntry | DotEnvLineOther;
+const dotEnvEntryRegExp: RegExp = /^\s*(export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(.*?)\s*$/;
+const dotEnvKeyRegExp: RegExp = /^[A-Za-z_][\w.-]*$/;
+const dotEnvValueUnquotedRegExp: RegExp = /^[\w+\/=:.,@%-]*$/;
+const dotEnvEscapes: ReadonlyMap<string, string> = new Map<string, string>([
+	["\"", "\""],
+	["\\", "\\"],
+	["n", "\n"],
+	["r", "\r"],
+	["t", "\t"]
+]);
+function parseDotEnvValue(value: string): string {
+	const quote: string = value.charAt(0);
+	if (quote === "\"") {
+		let result: string = "";
+		for (let index: number = 1; index < value.length; index += 1) {
+			const character: string = value.charAt(index);
+			if (character === "\"") {
+				return result;
+			}
+			if (character === "\\" && dotEnvEscapes.has(value.charAt(index + 1))) {
+				result += dotEnvEscapes.get(value.charAt(index + 1))!;
+				index += 1;
+				continue;
+			}
+			result += character;
+		}
+		throw new SyntaxError(`\`${value}\` is not a valid dotenv value, the double quote is not closed!`);
+	}
+	if (quote === "'" || quote === "`") {
+		const indexEnd: number = value.indexOf(quote, 1);
+		if (indexEnd < 0) {
+			throw new SyntaxError(`\`${value}\` is not a valid dotenv value, the quote is not closed!`);
+		}
+		return value.slice(1, indexEnd);
+	}
+	// Inline comment of the unquoted value must be preceded by a whitespace.
+	return value.replace(/(?:^|\s+)#.*$/, "");
+}
+/**
+ * Parse the dotenv text into the lines, comments and empty lines are preserved.
+ * @param {string} text Dotenv text.
+ * @returns {DotEnvLine[]} Lines.
+ */
+export function parseDotEnv(text: string): DotEnvLine[] {
+	return text.split(/\r?\n/).map((line: string): DotEnvLine => {
+		const match: RegExpExecArray | null = dotEnvEntryRegExp.exec(line);
+		if (match === null) {
+			return {
+				type: "other",
+				line
+			};
+		}
+		return {
+			type: "entry",
+			export: typeof match[1] !== "undefined",
+			key: match[2],
+			line,
+			value: parseDotEnvValue(match[3])
+		};
+	});
+}
+/**
+ * Stringify the lines into the dotenv text.
+ * @param {readonly DotEnvLine[]} lines Lines.
+ * @returns {string} Dotenv text.
+ */
+export function stringifyDotEnv(lines: readonly DotEnvLine[]): string {
+	return lines.map((line: DotEnvLine): string => {
+		return line.line;
+	}).join("\n");
+}
+/**
+ * Create the entry line, the value is quoted when necessary.
+ * @param {string} key Key.
+ * @param {string} value Value.
+ * @param {boolean} [exported=false] Whether the entry is prefixed with `export`.
+ * @returns {DotEnvLineEntry} Entry line.
+ */
+export function createDotEnvEntry(key: string, value: string, exported: boolean = false): DotEnvLineEntry {
+	if (!dotEnvKeyRegExp.test(key)) {
+		throw new SyntaxError(`\`${key}\` is not a valid dotenv key!`);
+	}
+	const valueFmt: string = dotEnvValueUnquotedRegExp.test(value) ? value : `"${value.replace(/["\\\n\r\t]/g, (character: string): string => {
+		switch (character) {
+			case "\n":
+				return "\\n";
+			case "\r":
+				return "\\r";
+			case "\t":
+				return "\\t";
+			default:
+				return `\\${character}`;
+		}
+	})}"`;
+	return {
+		type: "entry",
+		export: exported,
+		key,
+		line: `${exported ? "export " : ""}${key}=${valueFmt}`,
+		value
+	};
+}
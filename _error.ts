@@ -0,0 +1,111 @@
+import type { SymmetricCryptorAlgorithm } from "./_algorithm.ts";
+export interface SymmetricCryptorErrorOptions extends ErrorOptions {
+	/**
+	 * Algorithm of the layer which is fail.
+	 */
+	algorithm?: SymmetricCryptorAlgorithm;
+	/**
+	 * Index of the layer which is fail, in the order of the encryption (i.e.: `0` is the innermost layer).
+	 */
+	layer?: number;
+}
+/**
+ * Base of the errors which throw by the symmetric cryptor.
+ */
+export class SymmetricCryptorError extends Error {
+	get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorError";
+	}
+	override name: string = "SymmetricCryptorError";
+	/**
+	 * Algorithm of the layer which is fail, `undefined` when not related to a layer.
+	 */
+	readonly algorithm: SymmetricCryptorAlgorithm | undefined;
+	/**
+	 * Index of the layer which is fail, in the order of the encryption (i.e.: `0` is the innermost layer); `undefined` when not related to a layer.
+	 */
+	readonly layer: number | undefined;
+	/**
+	 * Initialize the error.
+	 * @param {string} message Message.
+	 * @param {SymmetricCryptorErrorOptions} [options={}] Options.
+	 */
+	constructor(message: string, options: SymmetricCryptorErrorOptions = {}) {
+		super(message, options);
+		this.algorithm = options.algorithm;
+		this.layer = options.layer;
+	}
+}
+/**
+ * Error when the cipher text is unable to authenticate or decrypt, the key or the additional authenticated data is not match, or the cipher text is tampered.
+ */
+export class SymmetricCryptorAuthenticationError extends SymmetricCryptorError {
+	override get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorAuthenticationError";
+	}
+	override name: string = "SymmetricCryptorAuthenticationError";
+}
+/**
+ * Error when the options of the symmetric cryptor are conflict, or not supported by the operation.
+ */
+export class SymmetricCryptorConfigError extends SymmetricCryptorError {
+	override get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorConfigError";
+	}
+	override name: string = "SymmetricCryptorConfigError";
+}
+/**
+ * Error when the cipher text is malformed or truncated.
+ */
+export class SymmetricCryptorFormatError extends SymmetricCryptorError {
+	override get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorFormatError";
+	}
+	override name: string = "SymmetricCryptorFormatError";
+}
+/**
+ * Error when the key is invalid, unable to import, or not provided.
+ */
+export class SymmetricCryptorKeyError extends SymmetricCryptorError {
+	override get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorKeyError";
+	}
+	override name: string = "SymmetricCryptorKeyError";
+}
+export interface SymmetricCryptorTokenTimestampErrorOptions extends SymmetricCryptorErrorOptions {
+	/**
+	 * Issue time of the token.
+	 */
+	issuedAt: Date;
+}
+/**
+ * Error when the token is expired, or issued in the future beyond the clock skew tolerance.
+ */
+export class SymmetricCryptorTokenTimestampError extends SymmetricCryptorError {
+	override get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorTokenTimestampError";
+	}
+	override name: string = "SymmetricCryptorTokenTimestampError";
+	/**
+	 * Issue time of the token.
+	 */
+	readonly issuedAt: Date;
+	/**
+	 * Initialize the error.
+	 * @param {string} message Message.
+	 * @param {SymmetricCryptorTokenTimestampErrorOptions} options Options.
+	 */
+	constructor(message: string, options: SymmetricCryptorTokenTimestampErrorOptions) {
+		super(message, options);
+		this.issuedAt = options.issuedAt;
+	}
+}
+/**
+ * Error when the cipher text is using a format version which is not supported.
+ */
+export class SymmetricCryptorUnsupportedVersionError extends SymmetricCryptorFormatError {
+	override get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorUnsupportedVersionError";
+	}
+	override name: string = "SymmetricCryptorUnsupportedVersionError";
+}
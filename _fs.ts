@@ -0,0 +1,349 @@
+import {
+	chmod as nodeChmod,
+	type FileHandle as NodeFileHandle,
+	lstat as nodeLstat,
+	open as nodeOpen,
+	readdir as nodeReaddir,
+	readFile as nodeReadFile,
+	rename as nodeRename,
+	rm as nodeRm,
+	stat as nodeStat,
+	utimes as nodeUtimes,
+	writeFile as nodeWriteFile
+} from "node:fs/promises";
+import { join as joinPath } from "node:path";
+import { platform } from "node:process";
+import {
+	Readable as NodeReadable,
+	Writable as NodeWritable
+} from "node:stream";
+/**
+ * Information of the file system entry.
+ */
+export interface SymmetricCryptorFileSystemFileInfo {
+	/**
+	 * Last access time of the entry, `null` when not available on the platform.
+	 */
+	atime: Date | null;
+	/**
+	 * Whether the entry is a directory.
+	 */
+	isDirectory: boolean;
+	/**
+	 * Whether the entry is a regular file.
+	 */
+	isFile: boolean;
+	/**
+	 * Permission mode of the entry, `null` when not available on the platform.
+	 */
+	mode: number | null;
+	/**
+	 * Last modification time of the entry, `null` when not available on the platform.
+	 */
+	mtime: Date | null;
+	/**
+	 * Size of the entry in bytes.
+	 */
+	size: number;
+}
+/**
+ * Entry of the directory.
+ */
+export interface SymmetricCryptorFileSystemDirectoryEntry {
+	/**
+	 * Whether the entry is a directory, symbolic link is not count.
+	 */
+	isDirectory: boolean;
+	/**
+	 * Whether the entry is a regular file, symbolic link is not count.
+	 */
+	isFile: boolean;
+	/**
+	 * Name of the entry.
+	 */
+	name: string;
+}
+export interface SymmetricCryptorFileSystemMakeTempFileOptions {
+	/**
+	 * Directory to create the temporary file.
+	 */
+	directory: string;
+	/**
+	 * Prefix of the temporary file name.
+	 */
+	prefix: string;
+	/**
+	 * Suffix of the temporary file name.
+	 */
+	suffix: string;
+}
+export interface SymmetricCryptorFileSystemReadFileOptions {
+	/**
+	 * Signal to abort the read.
+	 */
+	signal?: AbortSignal;
+}
+export interface SymmetricCryptorFileSystemWriteFileOptions {
+	/**
+	 * Signal to abort the write.
+	 */
+	signal?: AbortSignal;
+}
+/**
+ * Adapter of the file system, all of the paths are the platform paths.
+ */
+export interface SymmetricCryptorFileSystem {
+	/**
+	 * Change the permission mode of the file, should ignore when the platform is not support.
+	 */
+	chmod(path: string, mode: number): Promise<void>;
+	/**
+	 * Create an empty file exclusively with the default permission mode of the platform (i.e.: apply the umask), `false` when the entry is already exist.
+	 */
+	createFile(path: string): Promise<boolean>;
+	/**
+	 * Get the information of the entry without follow the symbolic link, `undefined` when the entry is not exist.
+	 */
+	lstat(path: string): Promise<SymmetricCryptorFileSystemFileInfo | undefined>;
+	/**
+	 * Create an empty temporary file, and return the path of it.
+	 */
+	makeTempFile(options: SymmetricCryptorFileSystemMakeTempFileOptions): Promise<string>;
+	/**
+	 * Read the entries of the directory.
+	 */
+	readDir(path: string): AsyncIterable<SymmetricCryptorFileSystemDirectoryEntry>;
+	/**
+	 * Read the file.
+	 */
+	readFile(path: string, options?: SymmetricCryptorFileSystemReadFileOptions): Promise<Uint8Array>;
+	/**
+	 * Open the file as a readable stream.
+	 */
+	readFileStream(path: string): Promise<ReadableStream<Uint8Array>>;
+	/**
+	 * Remove the file.
+	 */
+	remove(path: string): Promise<void>;
+	/**
+	 * Rename the entry, replace the new path if exist.
+	 */
+	rename(oldPath: string, newPath: string): Promise<void>;
+	/**
+	 * Get the information of the entry, `undefined` when the entry is not exist.
+	 */
+	stat(path: string): Promise<SymmetricCryptorFileSystemFileInfo | undefined>;
+	/**
+	 * Flush the file or the directory to the disk.
+	 */
+	sync(path: string): Promise<void>;
+	/**
+	 * Change the access time and the modification time of the file.
+	 */
+	utime(path: string, atime: Date, mtime: Date): Promise<void>;
+	/**
+	 * Write the file, create or truncate the file.
+	 */
+	writeFile(path: string, data: Uint8Array, options?: SymmetricCryptorFileSystemWriteFileOptions): Promise<void>;
+	/**
+	 * Open the file as a writable stream, create or truncate the file.
+	 */
+	writeFileStream(path: string): Promise<WritableStream<Uint8Array>>;
+}
+function denoFileInfo(info: Deno.FileInfo): SymmetricCryptorFileSystemFileInfo {
+	return {
+		atime: info.atime,
+		isDirectory: info.isDirectory,
+		isFile: info.isFile,
+		mode: info.mode,
+		mtime: info.mtime,
+		size: info.size
+	};
+}
+async function denoFileInfoOrUndefined(info: Promise<Deno.FileInfo>): Promise<SymmetricCryptorFileSystemFileInfo | undefined> {
+	return await info.then(denoFileInfo, (error: unknown): undefined => {
+		if (error instanceof Deno.errors.NotFound) {
+			return undefined;
+		}
+		throw error;
+	});
+}
+export const fileSystemDeno: SymmetricCryptorFileSystem = {
+	async chmod(path: string, mode: number): Promise<void> {
+		if (Deno.build.os !== "windows") {
+			await Deno.chmod(path, mode);
+		}
+	},
+	async createFile(path: string): Promise<boolean> {
+		try {
+			(await Deno.open(path, {
+				createNew: true,
+				write: true
+			})).close();
+			return true;
+		} catch (error) {
+			if (error instanceof Deno.errors.AlreadyExists) {
+				return false;
+			}
+			throw error;
+		}
+	},
+	async lstat(path: string): Promise<SymmetricCryptorFileSystemFileInfo | undefined> {
+		return await denoFileInfoOrUndefined(Deno.lstat(path));
+	},
+	async makeTempFile(options: SymmetricCryptorFileSystemMakeTempFileOptions): Promise<string> {
+		return await Deno.makeTempFile({
+			dir: options.directory,
+			prefix: options.prefix,
+			suffix: options.suffix
+		});
+	},
+	async *readDir(path: string): AsyncGenerator<SymmetricCryptorFileSystemDirectoryEntry> {
+		for await (const entry of Deno.readDir(path)) {
+			yield {
+				isDirectory: entry.isDirectory,
+				isFile: entry.isFile,
+				name: entry.name
+			};
+		}
+	},
+	async readFile(path: string, options?: SymmetricCryptorFileSystemReadFileOptions): Promise<Uint8Array> {
+		return await Deno.readFile(path, options);
+	},
+	async readFileStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		return (await Deno.open(path, { read: true })).readable;
+	},
+	async remove(path: string): Promise<void> {
+		await Deno.remove(path);
+	},
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		await Deno.rename(oldPath, newPath);
+	},
+	async stat(path: string): Promise<SymmetricCryptorFileSystemFileInfo | undefined> {
+		return await denoFileInfoOrUndefined(Deno.stat(path));
+	},
+	async sync(path: string): Promise<void> {
+		using file: Deno.FsFile = await Deno.open(path, { read: true });
+		await file.sync();
+	},
+	async utime(path: string, atime: Date, mtime: Date): Promise<void> {
+		await Deno.utime(path, atime, mtime);
+	},
+	async writeFile(path: string, data: Uint8Array, options?: SymmetricCryptorFileSystemWriteFileOptions): Promise<void> {
+		await Deno.writeFile(path, data, options);
+	},
+	async writeFileStream(path: string): Promise<WritableStream<Uint8Array>> {
+		return (await Deno.open(path, {
+			create: true,
+			truncate: true,
+			write: true
+		})).writable;
+	}
+};
+function isNodeErrorCode(error: unknown, code: string): boolean {
+	return (error instanceof Error && (error as Error & { code?: unknown; }).code === code);
+}
+async function nodeFileInfoOrUndefined(info: ReturnType<typeof nodeStat>): Promise<SymmetricCryptorFileSystemFileInfo | undefined> {
+	return await info.then((info: Awaited<ReturnType<typeof nodeStat>>): SymmetricCryptorFileSystemFileInfo => {
+		return {
+			atime: info.atime,
+			isDirectory: info.isDirectory(),
+			isFile: info.isFile(),
+			mode: Number(info.mode),
+			mtime: info.mtime,
+			size: Number(info.size)
+		};
+	}, (error: unknown): undefined => {
+		if (isNodeErrorCode(error, "ENOENT")) {
+			return undefined;
+		}
+		throw error;
+	});
+}
+export const fileSystemNode: SymmetricCryptorFileSystem = {
+	async chmod(path: string, mode: number): Promise<void> {
+		if (platform !== "win32") {
+			await nodeChmod(path, mode);
+		}
+	},
+	async createFile(path: string): Promise<boolean> {
+		try {
+			await (await nodeOpen(path, "wx")).close();
+			return true;
+		} catch (error) {
+			if (isNodeErrorCode(error, "EEXIST")) {
+				return false;
+			}
+			throw error;
+		}
+	},
+	async lstat(path: string): Promise<SymmetricCryptorFileSystemFileInfo | undefined> {
+		return await nodeFileInfoOrUndefined(nodeLstat(path));
+	},
+	async makeTempFile(options: SymmetricCryptorFileSystemMakeTempFileOptions): Promise<string> {
+		while (true) {
+			const path: string = joinPath(options.directory, `${options.prefix}${Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte: number): string => {
+				return byte.toString(16).padStart(2, "0");
+			}).join("")}${options.suffix}`);
+			try {
+				await (await nodeOpen(path, "wx", 0o600)).close();
+				return path;
+			} catch (error) {
+				if (!isNodeErrorCode(error, "EEXIST")) {
+					throw error;
+				}
+			}
+		}
+	},
+	async *readDir(path: string): AsyncGenerator<SymmetricCryptorFileSystemDirectoryEntry> {
+		for (const entry of await nodeReaddir(path, { withFileTypes: true })) {
+			yield {
+				isDirectory: entry.isDirectory(),
+				isFile: entry.isFile(),
+				name: entry.name
+			};
+		}
+	},
+	async readFile(path: string, options?: SymmetricCryptorFileSystemReadFileOptions): Promise<Uint8Array> {
+		const data: Uint8Array = await nodeReadFile(path, { signal: options?.signal });
+		return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+	},
+	async readFileStream(path: string): Promise<ReadableStream<Uint8Array>> {
+		const file: NodeFileHandle = await nodeOpen(path, "r");
+		return NodeReadable.toWeb(file.createReadStream());
+	},
+	async remove(path: string): Promise<void> {
+		await nodeRm(path);
+	},
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		await nodeRename(oldPath, newPath);
+	},
+	async stat(path: string): Promise<SymmetricCryptorFileSystemFileInfo | undefined> {
+		return await nodeFileInfoOrUndefined(nodeStat(path));
+	},
+	async sync(path: string): Promise<void> {
+		const file: NodeFileHandle = await nodeOpen(path, "r");
+		try {
+			await file.sync();
+		} finally {
+			await file.close();
+		}
+	},
+	async utime(path: string, atime: Date, mtime: Date): Promise<void> {
+		await nodeUtimes(path, atime, mtime);
+	},
+	async writeFile(path: string, data: Uint8Array, options?: SymmetricCryptorFileSystemWriteFileOptions): Promise<void> {
+		await nodeWriteFile(path, data, { signal: options?.signal });
+	},
+	async writeFileStream(path: string): Promise<WritableStream<Uint8Array>> {
+		const file: NodeFileHandle = await nodeOpen(path, "w");
+		return NodeWritable.toWeb(file.createWriteStream());
+	}
+};
+/**
+ * Resolve the file system adapter of the current runtime, use the Deno APIs when available, otherwise use the NodeJS APIs (also available in Bun).
+ * @returns {SymmetricCryptorFileSystem} File system adapter.
+ */
+export function resolveFileSystemDefault(): SymmetricCryptorFileSystem {
+	return (typeof globalThis.Deno === "undefined") ? fileSystemNode : fileSystemDeno;
+}
\ No newline at end of file
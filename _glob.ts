@@ -0,0 +1,72 @@
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+/**
+ * Convert the glob pattern to the regular expression, which match the POSIX style relative path.
+ *
+ * Support `**` (any directories), `*` (any characters except `/`), `?` (a character except `/`), `[...]` (a character in the set), and `{a,b}` (alternatives).
+ * @param {string} pattern Glob pattern.
+ * @returns {RegExp} Regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let result: string = "";
+	let groupDepth: number = 0;
+	for (let index: number = 0; index < pattern.length; index += 1) {
+		const character: string = pattern[index];
+		switch (character) {
+			case "*":
+				if (pattern[index + 1] === "*") {
+					index += 1;
+					if (pattern[index + 1] === "/") {
+						index += 1;
+						result += "(?:.*/)?";
+					} else {
+						result += ".*";
+					}
+				} else {
+					result += "[^/]*";
+				}
+				break;
+			case "?":
+				result += "[^/]";
+				break;
+			case "[": {
+				const indexEnd: number = pattern.indexOf("]", index + 1);
+				if (indexEnd === -1) {
+					result += "\\[";
+					break;
+				}
+				const set: string = pattern.slice(index + 1, indexEnd).replace(/\\/g, "\\\\");
+				result += (set.startsWith("!")) ? `[^/${set.slice(1)}]` : `[${set}]`;
+				index = indexEnd;
+				break;
+			}
+			case "{":
+				groupDepth += 1;
+				result += "(?:";
+				break;
+			case "}":
+				if (groupDepth > 0) {
+					groupDepth -= 1;
+					result += ")";
+				} else {
+					result += "\\}";
+				}
+				break;
+			case ",":
+				result += (groupDepth > 0) ? "|" : ",";
+				break;
+			case "\\":
+				index += 1;
+				result += escapeRegExp(pattern[index] ?? "\\");
+				break;
+			default:
+				result += escapeRegExp(character);
+				break;
+		}
+	}
+	if (groupDepth > 0) {
+		throw new SyntaxError(`\`${pattern}\` is not a valid glob pattern, group is not closed!`);
+	}
+	return new RegExp(`^${result}$`);
+}
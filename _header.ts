@@ -0,0 +1,565 @@
+import {
+	SymmetricCryptorFormatError,
+	SymmetricCryptorUnsupportedVersionError
+} from "./_error.ts";
+/**
+ * Magic bytes of the cipher text header, ASCII `SYMC`.
+ */
+export const headerMagic: Uint8Array = Uint8Array.from([0x53, 0x59, 0x4D, 0x43]);
+/**
+ * Current version of the cipher text header format.
+ */
+export const headerVersion: number = 1;
+/**
+ * Magic bytes of the envelope cipher text header, ASCII `SYME`.
+ */
+export const headerEnvelopeMagic: Uint8Array = Uint8Array.from([0x53, 0x59, 0x4D, 0x45]);
+/**
+ * Magic bytes of the threshold cipher text header, ASCII `SYMT`.
+ */
+export const headerThresholdMagic: Uint8Array = Uint8Array.from([0x53, 0x59, 0x4D, 0x54]);
+/**
+ * Magic bytes of the stream cipher text header, ASCII `SYMS`.
+ */
+export const headerStreamMagic: Uint8Array = Uint8Array.from([0x53, 0x59, 0x4D, 0x53]);
+/**
+ * Length of the nonce prefix of the stream cipher text.
+ */
+export const headerStreamNoncePrefixLength: number = 7;
+/**
+ * Maximum segment size of the stream cipher text.
+ */
+export const headerStreamSegmentSizeMaximum: number = 16777216;
+const headerWrappedKeyLengthMaximum: number = 1048576;
+/**
+ * Maximum count of the layers of the cipher text.
+ */
+export const headerLayersCountMaximum: number = 65535;
+export interface SymmetricCryptorHeaderKey {
+	/**
+	 * ID of the key derivation function.
+	 */
+	kdf: number;
+	/**
+	 * Parameters of the key derivation function.
+	 */
+	kdfParameters: Uint8Array;
+}
+export interface SymmetricCryptorHeaderLayer {
+	/**
+	 * ID of the algorithm.
+	 */
+	algorithm: number;
+	/**
+	 * Flags of the layer.
+	 */
+	flags: number;
+	/**
+	 * Index of the key in the keys table.
+	 */
+	key: number;
+}
+/**
+ * Flag of the layer, which the layer has a MAC (i.e.: Encrypt-then-MAC).
+ */
+export const headerLayerFlagMAC: number = 0b00000001;
+/**
+ * Flag of the layer, which the layer is deterministic, the IV is synthetic from the data and the additional authenticated data (i.e.: SIV), and authenticate the layer.
+ */
+export const headerLayerFlagSIV: number = 0b00000010;
+/**
+ * Type of the extension, which contains the ID of each key in the keys table.
+ */
+export const headerExtensionKeysID: number = 1;
+/**
+ * Type of the extension, which contains the length in bytes of each derived key in the keys table (1 byte per key); Derived key is 32 bytes when absent.
+ */
+export const headerExtensionKeysLength: number = 2;
+/**
+ * Type of the extension, which contains the compression of the data before the first layer.
+ */
+export const headerExtensionCompression: number = 3;
+/**
+ * Type of the extension, which contains the padding of the data before the first layer.
+ */
+export const headerExtensionPadding: number = 4;
+export interface SymmetricCryptorHeader {
+	/**
+	 * Extensions, keyed by the extension type.
+	 */
+	extensions: Map<number, Uint8Array>;
+	/**
+	 * Keys table.
+	 */
+	keys: SymmetricCryptorHeaderKey[];
+	/**
+	 * Layers, in the order of encryption.
+	 */
+	layers: SymmetricCryptorHeaderLayer[];
+}
+export interface SymmetricCryptorHeaderDecoded {
+	/**
+	 * Header of the cipher text.
+	 */
+	header: SymmetricCryptorHeader;
+	/**
+	 * Raw bytes of the header.
+	 */
+	headerRaw: Uint8Array;
+	/**
+	 * Body of the cipher text.
+	 */
+	body: Uint8Array;
+}
+/**
+ * Determine whether the data is start with the specified magic bytes.
+ * @param {Uint8Array} data Data.
+ * @param {Uint8Array} [magic] Magic bytes.
+ * @returns {boolean} Determine result.
+ */
+export function isStartWithMagic(data: Uint8Array, magic: Uint8Array = headerMagic): boolean {
+	if (data.length < magic.length) {
+		return false;
+	}
+	for (let index: number = 0; index < magic.length; index += 1) {
+		if (data[index] !== magic[index]) {
+			return false;
+		}
+	}
+	return true;
+}
+/**
+ * Concatenate the bytes.
+ * @param {...Uint8Array} items Items.
+ * @returns {Uint8Array<ArrayBuffer>} Concatenated bytes.
+ */
+export function concatBytes(...items: readonly Uint8Array[]): Uint8Array<ArrayBuffer> {
+	const result: Uint8Array<ArrayBuffer> = new Uint8Array(items.reduce((total: number, item: Uint8Array): number => {
+		return (total + item.length);
+	}, 0));
+	let offset: number = 0;
+	for (const item of items) {
+		result.set(item, offset);
+		offset += item.length;
+	}
+	return result;
+}
+class HeaderTruncatedError extends SymmetricCryptorFormatError {
+	constructor() {
+		super(`Cipher text header is truncated!`);
+	}
+}
+class ByteWriter {
+	#chunks: Uint8Array[] = [];
+	bytes(value: Uint8Array): this {
+		this.#chunks.push(value);
+		return this;
+	}
+	uint8(value: number): this {
+		this.#chunks.push(Uint8Array.of(value));
+		return this;
+	}
+	uint16(value: number): this {
+		const chunk: Uint8Array = new Uint8Array(2);
+		new DataView(chunk.buffer).setUint16(0, value);
+		this.#chunks.push(chunk);
+		return this;
+	}
+	uint32(value: number): this {
+		const chunk: Uint8Array = new Uint8Array(4);
+		new DataView(chunk.buffer).setUint32(0, value);
+		this.#chunks.push(chunk);
+		return this;
+	}
+	toBytes(): Uint8Array<ArrayBuffer> {
+		return concatBytes(...this.#chunks);
+	}
+}
+class ByteReader {
+	#data: Uint8Array;
+	#offset: number = 0;
+	constructor(data: Uint8Array) {
+		this.#data = data;
+	}
+	get offset(): number {
+		return this.#offset;
+	}
+	#ensure(length: number): void {
+		if (this.#offset + length > this.#data.length) {
+			throw new HeaderTruncatedError();
+		}
+	}
+	bytes(length: number): Uint8Array {
+		this.#ensure(length);
+		const value: Uint8Array = this.#data.slice(this.#offset, this.#offset + length);
+		this.#offset += length;
+		return value;
+	}
+	uint8(): number {
+		this.#ensure(1);
+		const value: number = this.#data[this.#offset];
+		this.#offset += 1;
+		return value;
+	}
+	uint16(): number {
+		this.#ensure(2);
+		const value: number = new DataView(this.#data.buffer, this.#data.byteOffset + this.#offset, 2).getUint16(0);
+		this.#offset += 2;
+		return value;
+	}
+	uint32(): number {
+		this.#ensure(4);
+		const value: number = new DataView(this.#data.buffer, this.#data.byteOffset + this.#offset, 4).getUint32(0);
+		this.#offset += 4;
+		return value;
+	}
+}
+/**
+ * Encode the cipher text header.
+ *
+ * Layout (all integers are big endian):
+ *
+ * - Magic bytes (4 bytes)
+ * - Format version (uint8)
+ * - Keys count (uint16), then for each key:
+ *   - KDF ID (uint8)
+ *   - KDF parameters length (uint16)
+ *   - KDF parameters
+ * - Layers count (uint32), then for each layer:
+ *   - Algorithm ID (uint8)
+ *   - Flags (uint8)
+ *   - Key index (uint16)
+ * - Extensions count (uint8), then for each extension:
+ *   - Extension type (uint8)
+ *   - Extension value length (uint32)
+ *   - Extension value
+ * @param {SymmetricCryptorHeader} header Header.
+ * @returns {Uint8Array<ArrayBuffer>} Encoded header.
+ */
+export function encodeHeader(header: SymmetricCryptorHeader): Uint8Array<ArrayBuffer> {
+	const writer: ByteWriter = new ByteWriter()
+		.bytes(headerMagic)
+		.uint8(headerVersion)
+		.uint16(header.keys.length);
+	for (const key of header.keys) {
+		writer.uint8(key.kdf).uint16(key.kdfParameters.length).bytes(key.kdfParameters);
+	}
+	writer.uint32(header.layers.length);
+	for (const layer of header.layers) {
+		writer.uint8(layer.algorithm).uint8(layer.flags).uint16(layer.key);
+	}
+	writer.uint8(header.extensions.size);
+	for (const [type, value] of header.extensions.entries()) {
+		writer.uint8(type).uint32(value.length).bytes(value);
+	}
+	return writer.toBytes();
+}
+/**
+ * Decode the cipher text header.
+ * @param {Uint8Array} data Data which start with the header.
+ * @returns {SymmetricCryptorHeaderDecoded} Decoded header, and the body.
+ */
+export function decodeHeader(data: Uint8Array): SymmetricCryptorHeaderDecoded {
+	if (!isStartWithMagic(data)) {
+		throw new SymmetricCryptorFormatError(`Cipher text does not have a header!`);
+	}
+	const reader: ByteReader = new ByteReader(data);
+	reader.bytes(headerMagic.length);
+	const version: number = reader.uint8();
+	if (version !== headerVersion) {
+		throw new SymmetricCryptorUnsupportedVersionError(`Cipher text header version \`${version}\` is not supported!`);
+	}
+	const keys: SymmetricCryptorHeaderKey[] = [];
+	const keysCount: number = reader.uint16();
+	if (keysCount === 0) {
+		throw new SymmetricCryptorFormatError(`Cipher text header does not have any key!`);
+	}
+	for (let index: number = 0; index < keysCount; index += 1) {
+		const kdf: number = reader.uint8();
+		const kdfParameters: Uint8Array = reader.bytes(reader.uint16());
+		keys.push({
+			kdf,
+			kdfParameters
+		});
+	}
+	const layers: SymmetricCryptorHeaderLayer[] = [];
+	const layersCount: number = reader.uint32();
+	if (!(layersCount >= 1 && layersCount <= headerLayersCountMaximum)) {
+		throw new SymmetricCryptorFormatError(`Cipher text header layers count \`${layersCount}\` is not between 1 and ${headerLayersCountMaximum}!`);
+	}
+	for (let index: number = 0; index < layersCount; index += 1) {
+		const algorithm: number = reader.uint8();
+		const flags: number = reader.uint8();
+		const key: number = reader.uint16();
+		if (key >= keys.length) {
+			throw new SymmetricCryptorFormatError(`Cipher text header layer #${index} is reference to a key which is not exist!`, { layer: index });
+		}
+		layers.push({
+			algorithm,
+			flags,
+			key
+		});
+	}
+	const extensions: Map<number, Uint8Array> = new Map<number, Uint8Array>();
+	const extensionsCount: number = reader.uint8();
+	for (let index: number = 0; index < extensionsCount; index += 1) {
+		const type: number = reader.uint8();
+		extensions.set(type, reader.bytes(reader.uint32()));
+	}
+	return {
+		header: {
+			extensions,
+			keys,
+			layers
+		},
+		headerRaw: data.slice(0, reader.offset),
+		body: data.slice(reader.offset)
+	};
+}
+/**
+ * Encode the list of optional strings, each string is prefix with its length (uint8), and empty string is equivalent to `undefined`.
+ * @param {readonly (string | undefined)[]} items Items.
+ * @returns {Uint8Array<ArrayBuffer>} Encoded list.
+ */
+export function encodeHeaderStrings(items: readonly (string | undefined)[]): Uint8Array<ArrayBuffer> {
+	const writer: ByteWriter = new ByteWriter();
+	for (const item of items) {
+		const itemBytes: Uint8Array = new TextEncoder().encode(item ?? "");
+		writer.uint8(itemBytes.length).bytes(itemBytes);
+	}
+	return writer.toBytes();
+}
+/**
+ * Decode the list of optional strings.
+ * @param {Uint8Array} data Data.
+ * @returns {(string | undefined)[]} Decoded list.
+ */
+export function decodeHeaderStrings(data: Uint8Array): (string | undefined)[] {
+	const reader: ByteReader = new ByteReader(data);
+	const result: (string | undefined)[] = [];
+	while (reader.offset < data.length) {
+		const item: string = new TextDecoder().decode(reader.bytes(reader.uint8()));
+		result.push((item.length > 0) ? item : undefined);
+	}
+	return result;
+}
+export interface SymmetricCryptorHeaderEnvelope {
+	/**
+	 * Data key which is wrapped (i.e.: encrypted) by the key chain.
+	 */
+	wrappedKey: Uint8Array;
+}
+/**
+ * Encode the envelope cipher text header.
+ *
+ * Layout (all integers are big endian):
+ *
+ * - Magic bytes (4 bytes)
+ * - Format version (uint8)
+ * - Wrapped key length (uint32)
+ * - Wrapped key
+ * @param {SymmetricCryptorHeaderEnvelope} header Header.
+ * @returns {Uint8Array<ArrayBuffer>} Encoded header.
+ */
+export function encodeHeaderEnvelope(header: SymmetricCryptorHeaderEnvelope): Uint8Array<ArrayBuffer> {
+	return new ByteWriter()
+		.bytes(headerEnvelopeMagic)
+		.uint8(headerVersion)
+		.uint32(header.wrappedKey.length)
+		.bytes(header.wrappedKey)
+		.toBytes();
+}
+/**
+ * Decode the envelope cipher text header.
+ * @param {Uint8Array} data Data which start with the header.
+ * @returns {{ header: SymmetricCryptorHeaderEnvelope; body: Uint8Array<ArrayBuffer>; }} Decoded header, and the body.
+ */
+export function decodeHeaderEnvelope(data: Uint8Array): { header: SymmetricCryptorHeaderEnvelope; body: Uint8Array<ArrayBuffer>; } {
+	if (!isStartWithMagic(data, headerEnvelopeMagic)) {
+		throw new SymmetricCryptorFormatError(`Cipher text is not an envelope cipher text!`);
+	}
+	const reader: ByteReader = new ByteReader(data);
+	reader.bytes(headerEnvelopeMagic.length);
+	const version: number = reader.uint8();
+	if (version !== headerVersion) {
+		throw new SymmetricCryptorUnsupportedVersionError(`Cipher text header version \`${version}\` is not supported!`);
+	}
+	const wrappedKeyLength: number = reader.uint32();
+	if (wrappedKeyLength > headerWrappedKeyLengthMaximum) {
+		throw new SymmetricCryptorFormatError(`Cipher text wrapped key length \`${wrappedKeyLength}\` is not supported!`);
+	}
+	const wrappedKey: Uint8Array = reader.bytes(wrappedKeyLength);
+	return {
+		header: { wrappedKey },
+		body: data.slice(reader.offset)
+	};
+}
+export interface SymmetricCryptorHeaderThresholdShare {
+	/**
+	 * X coordinate of the share.
+	 */
+	x: number;
+	/**
+	 * Share which is wrapped (i.e.: encrypted) by a custodian key.
+	 */
+	wrappedShare: Uint8Array;
+}
+export interface SymmetricCryptorHeaderThreshold {
+	/**
+	 * Shares of the data key, 1 share for each custodian key.
+	 */
+	shares: SymmetricCryptorHeaderThresholdShare[];
+	/**
+	 * Minimum count of the shares to recover the data key.
+	 */
+	threshold: number;
+}
+/**
+ * Encode the threshold cipher text header.
+ *
+ * Layout (all integers are big endian):
+ *
+ * - Magic bytes (4 bytes)
+ * - Format version (uint8)
+ * - Threshold (uint8)
+ * - Shares count (uint8)
+ * - Shares, each:
+ *   - X coordinate (uint8)
+ *   - Wrapped share length (uint32)
+ *   - Wrapped share
+ * @param {SymmetricCryptorHeaderThreshold} header Header.
+ * @returns {Uint8Array<ArrayBuffer>} Encoded header.
+ */
+export function encodeHeaderThreshold(header: SymmetricCryptorHeaderThreshold): Uint8Array<ArrayBuffer> {
+	const writer: ByteWriter = new ByteWriter()
+		.bytes(headerThresholdMagic)
+		.uint8(headerVersion)
+		.uint8(header.threshold)
+		.uint8(header.shares.length);
+	for (const share of header.shares) {
+		writer
+			.uint8(share.x)
+			.uint32(share.wrappedShare.length)
+			.bytes(share.wrappedShare);
+	}
+	return writer.toBytes();
+}
+/**
+ * Decode the threshold cipher text header.
+ * @param {Uint8Array} data Data which start with the header.
+ * @returns {{ header: SymmetricCryptorHeaderThreshold; body: Uint8Array<ArrayBuffer>; headerRaw: Uint8Array<ArrayBuffer>; }} Decoded header, the body, and the raw header.
+ */
+export function decodeHeaderThreshold(data: Uint8Array): { header: SymmetricCryptorHeaderThreshold; body: Uint8Array<ArrayBuffer>; headerRaw: Uint8Array<ArrayBuffer>; } {
+	if (!isStartWithMagic(data, headerThresholdMagic)) {
+		throw new SymmetricCryptorFormatError(`Cipher text is not a threshold cipher text!`);
+	}
+	const reader: ByteReader = new ByteReader(data);
+	reader.bytes(headerThresholdMagic.length);
+	const version: number = reader.uint8();
+	if (version !== headerVersion) {
+		throw new SymmetricCryptorUnsupportedVersionError(`Cipher text header version \`${version}\` is not supported!`);
+	}
+	const threshold: number = reader.uint8();
+	const sharesCount: number = reader.uint8();
+	if (!(threshold >= 1 && threshold <= sharesCount)) {
+		throw new SymmetricCryptorFormatError(`Cipher text threshold \`${threshold}\` of ${sharesCount} shares is not valid!`);
+	}
+	const shares: SymmetricCryptorHeaderThresholdShare[] = [];
+	for (let index: number = 0; index < sharesCount; index += 1) {
+		const x: number = reader.uint8();
+		const wrappedShareLength: number = reader.uint32();
+		if (wrappedShareLength > headerWrappedKeyLengthMaximum) {
+			throw new SymmetricCryptorFormatError(`Cipher text wrapped share length \`${wrappedShareLength}\` is not supported!`);
+		}
+		shares.push({
+			x,
+			wrappedShare: reader.bytes(wrappedShareLength)
+		});
+	}
+	return {
+		header: {
+			shares,
+			threshold
+		},
+		body: data.slice(reader.offset),
+		headerRaw: data.slice(0, reader.offset)
+	};
+}
+export interface SymmetricCryptorHeaderStream {
+	/**
+	 * Nonce prefix of the segments.
+	 */
+	noncePrefix: Uint8Array;
+	/**
+	 * Size of the plain text of each segment, except the last segment.
+	 */
+	segmentSize: number;
+	/**
+	 * Data key which is wrapped (i.e.: encrypted) by the key chain.
+	 */
+	wrappedKey: Uint8Array;
+}
+/**
+ * Encode the stream cipher text header.
+ *
+ * Layout (all integers are big endian):
+ *
+ * - Magic bytes (4 bytes)
+ * - Format version (uint8)
+ * - Segment size (uint32)
+ * - Nonce prefix (7 bytes)
+ * - Wrapped key length (uint32)
+ * - Wrapped key
+ * @param {SymmetricCryptorHeaderStream} header Header.
+ * @returns {Uint8Array<ArrayBuffer>} Encoded header.
+ */
+export function encodeHeaderStream(header: SymmetricCryptorHeaderStream): Uint8Array<ArrayBuffer> {
+	return new ByteWriter()
+		.bytes(headerStreamMagic)
+		.uint8(headerVersion)
+		.uint32(header.segmentSize)
+		.bytes(header.noncePrefix)
+		.uint32(header.wrappedKey.length)
+		.bytes(header.wrappedKey)
+		.toBytes();
+}
+/**
+ * Decode the stream cipher text header.
+ * @param {Uint8Array} data Data which start with the header.
+ * @returns {{ header: SymmetricCryptorHeaderStream; length: number; } | undefined} Decoded header and its length, or `undefined` when the data is not enough.
+ */
+export function decodeHeaderStream(data: Uint8Array): { header: SymmetricCryptorHeaderStream; length: number; } | undefined {
+	const reader: ByteReader = new ByteReader(data);
+	try {
+		if (!isStartWithMagic(reader.bytes(headerStreamMagic.length), headerStreamMagic)) {
+			throw new SymmetricCryptorFormatError(`Cipher text is not a stream cipher text!`);
+		}
+		const version: number = reader.uint8();
+		if (version !== headerVersion) {
+			throw new SymmetricCryptorUnsupportedVersionError(`Cipher text header version \`${version}\` is not supported!`);
+		}
+		const segmentSize: number = reader.uint32();
+		if (!(segmentSize >= 1 && segmentSize <= headerStreamSegmentSizeMaximum)) {
+			throw new SymmetricCryptorFormatError(`Cipher text segment size \`${segmentSize}\` is not supported!`);
+		}
+		const noncePrefix: Uint8Array = reader.bytes(headerStreamNoncePrefixLength);
+		const wrappedKeyLength: number = reader.uint32();
+		if (wrappedKeyLength > headerWrappedKeyLengthMaximum) {
+			throw new SymmetricCryptorFormatError(`Cipher text wrapped key length \`${wrappedKeyLength}\` is not supported!`);
+		}
+		const wrappedKey: Uint8Array = reader.bytes(wrappedKeyLength);
+		return {
+			header: {
+				noncePrefix,
+				segmentSize,
+				wrappedKey
+			},
+			length: reader.offset
+		};
+	} catch (error) {
+		if (error instanceof HeaderTruncatedError) {
+			return undefined;
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,418 @@
+import { Buffer } from "node:buffer";
+import {
+	SymmetricCryptorAuthenticationError,
+	SymmetricCryptorFormatError,
+	SymmetricCryptorKeyError,
+	SymmetricCryptorUnsupportedVersionError
+} from "./_error.ts";
+import {
+	concatBytes,
+	headerEnvelopeMagic,
+	headerMagic,
+	headerStreamMagic,
+	headerThresholdMagic,
+	isStartWithMagic
+} from "./_header.ts";
+import type { TokenDecoded } from "./_token.ts";
+/**
+ * Hash of the PBKDF2 of the interoperable formats.
+ */
+export type InteropHash =
+	| "SHA-256"
+	| "SHA-384"
+	| "SHA-512";
+async function derivePBKDF2(password: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>, hash: InteropHash, iterations: number, length: number): Promise<Uint8Array<ArrayBuffer>> {
+	return new Uint8Array(await crypto.subtle.deriveBits({
+		name: "PBKDF2",
+		hash,
+		iterations,
+		salt
+	}, await crypto.subtle.importKey("raw", password, { name: "PBKDF2" }, false, ["deriveBits"]), length * 8));
+}
+function encodeBase64URL(data: Uint8Array): string {
+	return Buffer.from(data).toString("base64url");
+}
+function decodeBase64URL(data: string): Uint8Array<ArrayBuffer> {
+	return Uint8Array.from(Buffer.from(data, "base64url"));
+}
+const jweCompactRegExp: RegExp = /^eyJ[\w-]*\.[\w-]*\.[\w-]+\.[\w-]*\.[\w-]+$/;
+const jweIVLength: number = 12;
+const jweTagLength: number = 16;
+const jwePBES2: ReadonlyMap<string, { hash: InteropHash; keyLength: number; }> = new Map<string, { hash: InteropHash; keyLength: number; }>([
+	["PBES2-HS256+A128KW", { hash: "SHA-256", keyLength: 16 }],
+	["PBES2-HS384+A192KW", { hash: "SHA-384", keyLength: 24 }],
+	["PBES2-HS512+A256KW", { hash: "SHA-512", keyLength: 32 }]
+]);
+// Iterations of the PBES2 is read from the untrusted JWE, which must be bounded to prevent the denial of service; Minimum is recommended by the RFC 7518.
+const jwePBES2IterationsMinimum: number = 1000;
+const jwePBES2IterationsMaximum: number = 1000000;
+/**
+ * Magic of the JWE compact serialization in bytes, which is the start of the base64url encoded protected header (i.e.: `{"`).
+ */
+export const jweMagic: Uint8Array<ArrayBuffer> = new TextEncoder().encode("eyJ");
+/**
+ * Protected header of the JWE.
+ */
+export interface JWEHeader {
+	alg: string;
+	enc: string;
+	kid?: string;
+	p2c?: number;
+	p2s?: string;
+}
+export interface JWEDecoded {
+	cipherText: Uint8Array<ArrayBuffer>;
+	encryptedKey: Uint8Array<ArrayBuffer>;
+	header: JWEHeader;
+	headerRaw: string;
+	iv: Uint8Array<ArrayBuffer>;
+	tag: Uint8Array<ArrayBuffer>;
+}
+export interface JWEEncryptOptions {
+	/**
+	 * ID of the key, which record in the protected header.
+	 */
+	keyId?: string;
+	/**
+	 * Parameters of the PBES2, the key is use as the password; When `undefined`, the key is use as the content encryption key directly (i.e.: `dir`).
+	 */
+	pbes2?: {
+		hash: InteropHash;
+		iterations: number;
+		saltLength: number;
+	};
+}
+/**
+ * Determine whether the value is a JWE compact serialization.
+ * @param {string} value Value.
+ * @returns {boolean} Determine result.
+ */
+export function isJWECompact(value: string): boolean {
+	return jweCompactRegExp.test(value);
+}
+function resolveJWEContentKeyLength(enc: string): number {
+	const match: RegExpExecArray | null = /^A(?<bits>128|192|256)GCM$/.exec(enc);
+	if (match === null) {
+		throw new SymmetricCryptorFormatError(`JWE is using an unsupported content encryption algorithm \`${enc}\`!`);
+	}
+	return Number(match.groups!.bits) / 8;
+}
+/**
+ * Encrypt the data to the JWE compact serialization, with the content encryption algorithm AES-GCM.
+ * @param {Uint8Array<ArrayBuffer>} key Key.
+ * @param {Uint8Array} data Data.
+ * @param {JWEEncryptOptions} options Options.
+ * @returns {Promise<string>} JWE compact serialization.
+ */
+export async function encryptJWE(key: Uint8Array<ArrayBuffer>, data: Uint8Array, options: JWEEncryptOptions): Promise<string> {
+	let contentKey: Uint8Array<ArrayBuffer>;
+	let encryptedKey: Uint8Array = new Uint8Array(0);
+	let header: JWEHeader;
+	if (typeof options.pbes2 === "undefined") {
+		header = {
+			alg: "dir",
+			enc: `A${key.length * 8}GCM`
+		};
+		resolveJWEContentKeyLength(header.enc);
+		contentKey = key;
+	} else {
+		if (!(options.pbes2.iterations >= jwePBES2IterationsMinimum && options.pbes2.iterations <= jwePBES2IterationsMaximum)) {
+			throw new RangeError(`\`${options.pbes2.iterations}\` (parameter \`kdf.iterations\`) is not between ${jwePBES2IterationsMinimum} and ${jwePBES2IterationsMaximum}, which is require by the cipher text format \`jwe\`!`);
+		}
+		const alg: string = `PBES2-HS${options.pbes2.hash.slice(4)}+A${Number(options.pbes2.hash.slice(4)) / 2}KW`;
+		const salt: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(options.pbes2.saltLength));
+		header = {
+			alg,
+			enc: "A256GCM",
+			p2c: options.pbes2.iterations,
+			p2s: encodeBase64URL(salt)
+		};
+		contentKey = crypto.getRandomValues(new Uint8Array(32));
+		const wrappingKey: CryptoKey = await crypto.subtle.importKey("raw", await derivePBKDF2(key, concatBytes(new TextEncoder().encode(alg), Uint8Array.of(0), salt), options.pbes2.hash, options.pbes2.iterations, jwePBES2.get(alg)!.keyLength), { name: "AES-KW" }, false, ["wrapKey"]);
+		encryptedKey = new Uint8Array(await crypto.subtle.wrapKey("raw", await crypto.subtle.importKey("raw", contentKey, { name: "AES-GCM" }, true, ["encrypt"]), wrappingKey, "AES-KW"));
+	}
+	if (typeof options.keyId !== "undefined") {
+		header.kid = options.keyId;
+	}
+	const headerRaw: string = encodeBase64URL(new TextEncoder().encode(JSON.stringify(header)));
+	const iv: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(jweIVLength));
+	const result: Uint8Array = new Uint8Array(await crypto.subtle.encrypt({
+		name: "AES-GCM",
+		additionalData: new TextEncoder().encode(headerRaw),
+		iv
+	}, await crypto.subtle.importKey("raw", contentKey, { name: "AES-GCM" }, false, ["encrypt"]), data.slice()));
+	return [
+		headerRaw,
+		encodeBase64URL(encryptedKey),
+		encodeBase64URL(iv),
+		encodeBase64URL(result.slice(0, result.length - jweTagLength)),
+		encodeBase64URL(result.slice(result.length - jweTagLength))
+	].join(".");
+}
+/**
+ * Decode the JWE compact serialization.
+ * @param {string} data JWE compact serialization.
+ * @returns {JWEDecoded} Decoded JWE.
+ */
+export function decodeJWE(data: string): JWEDecoded {
+	const [headerRaw, encryptedKey, iv, cipherText, tag]: string[] = data.split(".");
+	let header: JWEHeader;
+	try {
+		header = JSON.parse(new TextDecoder().decode(decodeBase64URL(headerRaw)));
+	} catch (error) {
+		throw new SymmetricCryptorFormatError(`JWE protected header is not a valid JSON!`, { cause: error });
+	}
+	if (!(typeof header === "object" && header !== null && typeof header.alg === "string" && typeof header.enc === "string")) {
+		throw new SymmetricCryptorFormatError(`JWE protected header is not valid, property \`alg\` or \`enc\` is missing!`);
+	}
+	if (typeof header.kid !== "undefined" && typeof header.kid !== "string") {
+		throw new SymmetricCryptorFormatError(`JWE protected header is not valid, property \`kid\` is not a string!`);
+	}
+	return {
+		cipherText: decodeBase64URL(cipherText),
+		encryptedKey: decodeBase64URL(encryptedKey),
+		header,
+		headerRaw,
+		iv: decodeBase64URL(iv),
+		tag: decodeBase64URL(tag)
+	};
+}
+/**
+ * Decrypt the decoded JWE, support the key management algorithms `dir` and `PBES2-*`, and the content encryption algorithm AES-GCM.
+ * @param {Uint8Array<ArrayBuffer>} key Key, which is the content encryption key when `dir`, or the password when `PBES2-*`.
+ * @param {JWEDecoded} jwe Decoded JWE.
+ * @returns {Promise<Uint8Array>} Data.
+ */
+export async function decryptJWE(key: Uint8Array<ArrayBuffer>, jwe: JWEDecoded): Promise<Uint8Array> {
+	const contentKeyLength: number = resolveJWEContentKeyLength(jwe.header.enc);
+	let contentKey: Uint8Array<ArrayBuffer>;
+	if (jwe.header.alg === "dir") {
+		contentKey = key;
+	} else if (jwePBES2.has(jwe.header.alg)) {
+		const {
+			hash,
+			keyLength
+		}: { hash: InteropHash; keyLength: number; } = jwePBES2.get(jwe.header.alg)!;
+		const iterations: unknown = jwe.header.p2c;
+		if (!(typeof iterations === "number" && Number.isSafeInteger(iterations) && iterations >= jwePBES2IterationsMinimum && iterations <= jwePBES2IterationsMaximum)) {
+			throw new SymmetricCryptorFormatError(`JWE protected header is not valid, property \`p2c\` is not a number which is integer, safe, and between ${jwePBES2IterationsMinimum} and ${jwePBES2IterationsMaximum}!`);
+		}
+		if (typeof jwe.header.p2s !== "string") {
+			throw new SymmetricCryptorFormatError(`JWE protected header is not valid, property \`p2s\` is missing!`);
+		}
+		const wrappingKey: CryptoKey = await crypto.subtle.importKey("raw", await derivePBKDF2(key, concatBytes(new TextEncoder().encode(jwe.header.alg), Uint8Array.of(0), decodeBase64URL(jwe.header.p2s)), hash, iterations, keyLength), { name: "AES-KW" }, false, ["unwrapKey"]);
+		try {
+			contentKey = new Uint8Array(await crypto.subtle.exportKey("raw", await crypto.subtle.unwrapKey("raw", jwe.encryptedKey, wrappingKey, "AES-KW", { name: "AES-GCM" }, true, ["decrypt"])));
+		} catch (error) {
+			throw new SymmetricCryptorAuthenticationError(`Unable to unwrap the JWE content encryption key, the key is not match, or the JWE is corrupted!`, {
+				algorithm: "AES-KW",
+				cause: error
+			});
+		}
+	} else {
+		throw new SymmetricCryptorFormatError(`JWE is using an unsupported key management algorithm \`${jwe.header.alg}\`!`);
+	}
+	if (contentKey.length !== contentKeyLength) {
+		throw new SymmetricCryptorKeyError(`JWE content encryption key is not ${contentKeyLength} bytes, which is require by the content encryption algorithm \`${jwe.header.enc}\`!`);
+	}
+	const contentCryptoKey: CryptoKey = await crypto.subtle.importKey("raw", contentKey, { name: "AES-GCM" }, false, ["decrypt"]);
+	try {
+		return new Uint8Array(await crypto.subtle.decrypt({
+			name: "AES-GCM",
+			additionalData: new TextEncoder().encode(jwe.headerRaw),
+			iv: jwe.iv
+		}, contentCryptoKey, concatBytes(jwe.cipherText, jwe.tag)));
+	} catch (error) {
+		throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the JWE, the key is not match, or the JWE is corrupted!`, {
+			algorithm: "AES-GCM",
+			cause: error
+		});
+	}
+}
+/**
+ * Magic of the OpenSSL `enc` format.
+ */
+export const opensslMagic: Uint8Array<ArrayBuffer> = new TextEncoder().encode("Salted__");
+const opensslSaltLength: number = 8;
+const opensslIVLength: number = 16;
+export interface OpenSSLOptions {
+	/**
+	 * Algorithm of the cipher, correspond to the OpenSSL cipher `aes-<keyLength>-cbc` or `aes-<keyLength>-ctr`.
+	 */
+	algorithm: "AES-CBC" | "AES-CTR";
+	/**
+	 * Hash of the PBKDF2, correspond to the OpenSSL option `-md`.
+	 */
+	hash: InteropHash;
+	/**
+	 * Iterations of the PBKDF2, correspond to the OpenSSL option `-iter`.
+	 */
+	iterations: number;
+	/**
+	 * Length of the key, in bytes.
+	 */
+	keyLength: number;
+}
+async function resolveOpenSSLCrypto(password: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>, options: OpenSSLOptions, usage: "decrypt" | "encrypt"): Promise<[parameters: AesCbcParams | AesCtrParams, cryptoKey: CryptoKey]> {
+	// OpenSSL derive the key and the IV together, the key first.
+	const derived: Uint8Array<ArrayBuffer> = await derivePBKDF2(password, salt, options.hash, options.iterations, options.keyLength + opensslIVLength);
+	const iv: Uint8Array<ArrayBuffer> = derived.slice(options.keyLength);
+	return [
+		(options.algorithm === "AES-CBC") ? {
+			name: "AES-CBC",
+			iv
+		} : {
+			name: "AES-CTR",
+			counter: iv,
+			length: 128
+		},
+		await crypto.subtle.importKey("raw", derived.slice(0, options.keyLength), { name: options.algorithm }, false, [usage])
+	];
+}
+/**
+ * Encrypt the data to the OpenSSL `enc` format (i.e.: `openssl enc -<cipher> -pbkdf2 -iter <iterations> -md <hash>`).
+ * @param {Uint8Array<ArrayBuffer>} password Password.
+ * @param {Uint8Array} data Data.
+ * @param {OpenSSLOptions} options Options.
+ * @returns {Promise<Uint8Array>} OpenSSL `enc` format data.
+ */
+export async function encryptOpenSSL(password: Uint8Array<ArrayBuffer>, data: Uint8Array, options: OpenSSLOptions): Promise<Uint8Array> {
+	const salt: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(opensslSaltLength));
+	const [parameters, cryptoKey]: [AesCbcParams | AesCtrParams, CryptoKey] = await resolveOpenSSLCrypto(password, salt, options, "encrypt");
+	return concatBytes(opensslMagic, salt, new Uint8Array(await crypto.subtle.encrypt(parameters, cryptoKey, data.slice())));
+}
+/**
+ * Decrypt the data from the OpenSSL `enc` format (i.e.: `openssl enc -d -<cipher> -pbkdf2 -iter <iterations> -md <hash>`).
+ * @param {Uint8Array<ArrayBuffer>} password Password.
+ * @param {Uint8Array} data OpenSSL `enc` format data.
+ * @param {OpenSSLOptions} options Options.
+ * @returns {Promise<Uint8Array>} Data.
+ */
+export async function decryptOpenSSL(password: Uint8Array<ArrayBuffer>, data: Uint8Array, options: OpenSSLOptions): Promise<Uint8Array> {
+	if (data.length < opensslMagic.length + opensslSaltLength) {
+		throw new SymmetricCryptorFormatError(`OpenSSL \`enc\` format data is truncated!`);
+	}
+	const [parameters, cryptoKey]: [AesCbcParams | AesCtrParams, CryptoKey] = await resolveOpenSSLCrypto(password, data.slice(opensslMagic.length, opensslMagic.length + opensslSaltLength), options, "decrypt");
+	try {
+		return new Uint8Array(await crypto.subtle.decrypt(parameters, cryptoKey, data.slice(opensslMagic.length + opensslSaltLength)));
+	} catch (error) {
+		throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the OpenSSL \`enc\` format data, the password is not match, or the data is corrupted!`, {
+			algorithm: options.algorithm,
+			cause: error
+		});
+	}
+}
+const fernetVersion: number = 0x80;
+const fernetKeyLength: number = 32;
+const fernetIVLength: number = 16;
+const fernetMACLength: number = 32;
+const fernetRegExp: RegExp = /^[\w-]+=*$/;
+async function resolveFernetCrypto(key: Uint8Array<ArrayBuffer>, usage: "decrypt" | "encrypt"): Promise<[signingKey: CryptoKey, encryptionKey: CryptoKey]> {
+	if (key.length !== fernetKeyLength) {
+		throw new SymmetricCryptorKeyError(`Fernet key is not ${fernetKeyLength} bytes!`);
+	}
+	return await Promise.all([
+		crypto.subtle.importKey("raw", key.slice(0, 16), {
+			name: "HMAC",
+			hash: "SHA-256"
+		}, false, [(usage === "encrypt") ? "sign" : "verify"]),
+		crypto.subtle.importKey("raw", key.slice(16), { name: "AES-CBC" }, false, [usage])
+	]);
+}
+/**
+ * Encrypt the data to the Fernet token (see https://github.com/fernet/spec).
+ * @param {Uint8Array<ArrayBuffer>} key Key, which is the 32 bytes decoded Fernet key.
+ * @param {Uint8Array} data Data.
+ * @param {number} timestamp Issue timestamp, in seconds since the epoch.
+ * @returns {Promise<string>} Fernet token.
+ */
+export async function encryptFernet(key: Uint8Array<ArrayBuffer>, data: Uint8Array, timestamp: number): Promise<string> {
+	const [signingKey, encryptionKey]: [CryptoKey, CryptoKey] = await resolveFernetCrypto(key, "encrypt");
+	const iv: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(fernetIVLength));
+	const timestampRaw: Uint8Array<ArrayBuffer> = new Uint8Array(8);
+	new DataView(timestampRaw.buffer).setBigUint64(0, BigInt(timestamp));
+	const body: Uint8Array<ArrayBuffer> = concatBytes(Uint8Array.of(fernetVersion), timestampRaw, iv, new Uint8Array(await crypto.subtle.encrypt({
+		name: "AES-CBC",
+		iv
+	}, encryptionKey, data.slice())));
+	// Fernet token is base64url encoded with the padding.
+	return Buffer.from(concatBytes(body, new Uint8Array(await crypto.subtle.sign("HMAC", signingKey, body)))).toString("base64").replaceAll("+", "-").replaceAll("/", "_");
+}
+/**
+ * Decrypt the data from the Fernet token (see https://github.com/fernet/spec).
+ * @param {Uint8Array<ArrayBuffer>} key Key, which is the 32 bytes decoded Fernet key.
+ * @param {string} token Fernet token.
+ * @returns {Promise<TokenDecoded>} Data, and the issue timestamp.
+ */
+export async function decryptFernet(key: Uint8Array<ArrayBuffer>, token: string): Promise<TokenDecoded> {
+	if (!fernetRegExp.test(token)) {
+		throw new SymmetricCryptorFormatError(`Fernet token is not base64url encoded!`);
+	}
+	const raw: Uint8Array<ArrayBuffer> = decodeBase64URL(token);
+	if (raw.length < 1 + 8 + fernetIVLength + 16 + fernetMACLength || (raw.length - (1 + 8 + fernetIVLength + fernetMACLength)) % 16 !== 0) {
+		throw new SymmetricCryptorFormatError(`Fernet token is truncated or malformed!`);
+	}
+	if (raw[0] !== fernetVersion) {
+		throw new SymmetricCryptorUnsupportedVersionError(`Fernet token version \`${raw[0]}\` is not supported!`);
+	}
+	const [signingKey, encryptionKey]: [CryptoKey, CryptoKey] = await resolveFernetCrypto(key, "decrypt");
+	const body: Uint8Array<ArrayBuffer> = raw.slice(0, raw.length - fernetMACLength);
+	if (!(await crypto.subtle.verify("HMAC", signingKey, raw.slice(raw.length - fernetMACLength), body))) {
+		throw new SymmetricCryptorAuthenticationError(`Unable to authenticate the Fernet token, the key is not match, or the token is tampered!`);
+	}
+	const timestamp: bigint = new DataView(body.buffer).getBigUint64(1);
+	try {
+		return {
+			data: new Uint8Array(await crypto.subtle.decrypt({
+				name: "AES-CBC",
+				iv: body.slice(1 + 8, 1 + 8 + fernetIVLength)
+			}, encryptionKey, body.slice(1 + 8 + fernetIVLength))),
+			timestamp: Number(timestamp)
+		};
+	} catch (error) {
+		throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the Fernet token, the token is corrupted!`, {
+			algorithm: "AES-CBC",
+			cause: error
+		});
+	}
+}
+/**
+ * Format of the cipher text which is detectable by the magic.
+ */
+export type CipherTextFormatDetected =
+	| "envelope"
+	| "jwe"
+	| "native"
+	| "openssl"
+	| "stream"
+	| "threshold";
+/**
+ * Maximum length of the magics, which is require to detect the formats other than the JWE.
+ */
+export const cipherTextMagicLengthMaximum: number = opensslMagic.length;
+/**
+ * Detect the format of the cipher text by the magic, the legacy cipher text (i.e.: without the header) is not detectable.
+ * @param {Uint8Array} data Cipher text, the JWE is only detectable with the complete cipher text.
+ * @returns {CipherTextFormatDetected | undefined} Format of the cipher text, `undefined` when not detectable.
+ */
+export function detectCipherTextFormat(data: Uint8Array): CipherTextFormatDetected | undefined {
+	if (isStartWithMagic(data, opensslMagic)) {
+		return "openssl";
+	}
+	if (isStartWithMagic(data, jweMagic) && isJWECompact(new TextDecoder().decode(data))) {
+		return "jwe";
+	}
+	if (isStartWithMagic(data, headerStreamMagic)) {
+		return "stream";
+	}
+	if (isStartWithMagic(data, headerEnvelopeMagic)) {
+		return "envelope";
+	}
+	if (isStartWithMagic(data, headerThresholdMagic)) {
+		return "threshold";
+	}
+	if (isStartWithMagic(data, headerMagic)) {
+		return "native";
+	}
+	return undefined;
+}
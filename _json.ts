@@ -0,0 +1,229 @@
+import { Buffer } from "node:buffer";
+/**
+ * Key of the tag in the serialized object, object which has the same key is escaped.
+ */
+const jsonTagKey: string = "$symc";
+type JSONTag =
+	| "bigint"
+	| "date"
+	| "map"
+	| "number"
+	| "object"
+	| "set"
+	| "uint8array"
+	| "undefined";
+function isObjectPlain(value: object): boolean {
+	const prototype: unknown = Object.getPrototypeOf(value);
+	return (prototype === Object.prototype || prototype === null);
+}
+function toJSONTagged(tag: JSONTag, value?: unknown): Record<string, unknown> {
+	return (typeof value === "undefined") ? { [jsonTagKey]: tag } : {
+		[jsonTagKey]: tag,
+		value
+	};
+}
+function toJSONValue(value: unknown, ancestors: Set<object>): unknown {
+	switch (typeof value) {
+		case "bigint":
+			return toJSONTagged("bigint", value.toString());
+		case "boolean":
+		case "string":
+			return value;
+		case "number":
+			return (Number.isFinite(value) && !Object.is(value, -0)) ? value : toJSONTagged("number", Object.is(value, -0) ? "-0" : String(value));
+		case "undefined":
+			return toJSONTagged("undefined");
+		case "function":
+		case "symbol":
+			throw new TypeError(`Value type \`${typeof value}\` is not serializable!`);
+	}
+	if (value === null) {
+		return null;
+	}
+	const valueObject: object = value as object;
+	if (ancestors.has(valueObject)) {
+		throw new TypeError(`Value is circular, which is not serializable!`);
+	}
+	ancestors.add(valueObject);
+	try {
+		if (valueObject instanceof Date) {
+			return toJSONTagged("date", Number.isNaN(valueObject.getTime()) ? null : valueObject.toISOString());
+		}
+		if (valueObject instanceof Uint8Array) {
+			return toJSONTagged("uint8array", Buffer.from(valueObject).toString("base64"));
+		}
+		if (valueObject instanceof Map) {
+			return toJSONTagged("map", Array.from(valueObject.entries(), ([entryKey, entryValue]: [unknown, unknown]): unknown[] => {
+				return [toJSONValue(entryKey, ancestors), toJSONValue(entryValue, ancestors)];
+			}));
+		}
+		if (valueObject instanceof Set) {
+			return toJSONTagged("set", Array.from(valueObject.values(), (element: unknown): unknown => {
+				return toJSONValue(element, ancestors);
+			}));
+		}
+		if (Array.isArray(valueObject)) {
+			return valueObject.map((element: unknown): unknown => {
+				return toJSONValue(element, ancestors);
+			});
+		}
+		if (!isObjectPlain(valueObject) && typeof (valueObject as { toJSON?: unknown; }).toJSON === "function") {
+			return toJSONValue((valueObject as { toJSON(): unknown; }).toJSON(), ancestors);
+		}
+		const result: Record<string, unknown> = {};
+		for (const [entryKey, entryValue] of Object.entries(valueObject)) {
+			// Same as the JSON, object property which is `undefined` is omitted.
+			if (typeof entryValue !== "undefined") {
+				result[entryKey] = toJSONValue(entryValue, ancestors);
+			}
+		}
+		return (Object.hasOwn(result, jsonTagKey)) ? toJSONTagged("object", result) : result;
+	} finally {
+		ancestors.delete(valueObject);
+	}
+}
+function fromJSONValue(value: unknown): unknown {
+	if (value === null || typeof value !== "object") {
+		return value;
+	}
+	if (Array.isArray(value)) {
+		return value.map(fromJSONValue);
+	}
+	const valueRecord: Record<string, unknown> = value as Record<string, unknown>;
+	if (!Object.hasOwn(valueRecord, jsonTagKey)) {
+		const result: Record<string, unknown> = {};
+		for (const [entryKey, entryValue] of Object.entries(valueRecord)) {
+			result[entryKey] = fromJSONValue(entryValue);
+		}
+		return result;
+	}
+	const tag: unknown = valueRecord[jsonTagKey];
+	const tagValue: unknown = valueRecord.value;
+	switch (tag) {
+		case "bigint":
+			return BigInt(tagValue as string);
+		case "date":
+			return new Date((tagValue === null) ? Number.NaN : tagValue as string);
+		case "map":
+			return new Map((tagValue as [unknown, unknown][]).map(([entryKey, entryValue]: [unknown, unknown]): [unknown, unknown] => {
+				return [fromJSONValue(entryKey), fromJSONValue(entryValue)];
+			}));
+		case "number":
+			return Number(tagValue);
+		case "object": {
+			const result: Record<string, unknown> = {};
+			for (const [entryKey, entryValue] of Object.entries(tagValue as Record<string, unknown>)) {
+				result[entryKey] = fromJSONValue(entryValue);
+			}
+			return result;
+		}
+		case "set":
+			return new Set((tagValue as unknown[]).map(fromJSONValue));
+		case "uint8array":
+			return Uint8Array.from(Buffer.from(tagValue as string, "base64"));
+		case "undefined":
+			return undefined;
+	}
+	throw new SyntaxError(`Serialized value is using an unknown tag \`${String(tag)}\`!`);
+}
+/**
+ * Serialize the value to the JSON, types which are not supported by the JSON (e.g.: `bigint`, `Date`, `Map`, `Set`, `Uint8Array`, `undefined`) are preserved by the tag.
+ * @param {unknown} value Value.
+ * @returns {string} Serialized value.
+ */
+export function serializeJSON(value: unknown): string {
+	return JSON.stringify(toJSONValue(value, new Set<object>()));
+}
+/**
+ * Deserialize the value from the JSON which is serialized by {@linkcode serializeJSON}.
+ * @param {string} data Serialized value.
+ * @returns {unknown} Value.
+ */
+export function deserializeJSON(data: string): unknown {
+	return fromJSONValue(JSON.parse(data));
+}
+/**
+ * Path of the field, either a string which the keys are separated by dot (e.g.: `"user.email"`), or a list of keys; Key `*` is match all of the elements or the properties.
+ */
+export type SymmetricCryptorFieldPath = string | readonly (string | number)[];
+function resolveFieldPath(path: SymmetricCryptorFieldPath): string[] {
+	const segments: string[] = (typeof path === "string") ? path.split(".") : path.map((segment: string | number): string => {
+		return String(segment);
+	});
+	if (segments.length === 0 || segments.some((segment: string): boolean => {
+		return (segment.length === 0);
+	})) {
+		throw new SyntaxError(`\`${(typeof path === "string") ? path : path.join(".")}\` is not a valid field path!`);
+	}
+	return segments;
+}
+async function mapFieldPath(value: unknown, segments: readonly string[], index: number, callback: (value: unknown, path: string) => Promise<unknown>): Promise<unknown> {
+	if (index === segments.length) {
+		return await callback(value, segments.join("."));
+	}
+	// Only descend into the array and the plain object, other values are not contain the field.
+	if (value === null || typeof value !== "object" || !(Array.isArray(value) || isObjectPlain(value))) {
+		return value;
+	}
+	const valueRecord: Record<string, unknown> = value as Record<string, unknown>;
+	const segment: string = segments[index];
+	const keys: string[] = (segment === "*") ? Object.keys(valueRecord) : [segment];
+	const result: Record<string, unknown> = (Array.isArray(value) ? [...value] : { ...value }) as Record<string, unknown>;
+	for (const key of keys) {
+		if (Object.hasOwn(valueRecord, key)) {
+			result[key] = await mapFieldPath(valueRecord[key], segments.toSpliced(index, 1, key), index + 1, callback);
+		}
+	}
+	return result;
+}
+/**
+ * Map the fields of the value, return a new value with the same shape; Fields which are not exist are skipped, and the value is not modified.
+ * @template {unknown} T
+ * @param {T} value Value.
+ * @param {readonly SymmetricCryptorFieldPath[]} paths Paths of the fields.
+ * @param {(value: unknown, path: string) => Promise<unknown>} callback Callback to map the field.
+ * @returns {Promise<T>} New value.
+ */
+export async function mapFields<T>(value: T, paths: readonly SymmetricCryptorFieldPath[], callback: (value: unknown, path: string) => Promise<unknown>): Promise<T> {
+	let result: unknown = value;
+	for (const path of paths) {
+		result = await mapFieldPath(result, resolveFieldPath(path), 0, callback);
+	}
+	return result as T;
+}
+/**
+ * Map the string leaves of the value, only descend into the array and the plain object; Return a new value with the same shape, and the value is not modified.
+ * @param {unknown} value Value.
+ * @param {(value: string, path: readonly string[]) => Promise<unknown>} callback Callback to map the string leaf.
+ * @param {readonly string[]} [path=[]] Path of the value.
+ * @returns {Promise<unknown>} New value.
+ */
+export async function mapStringLeaves(value: unknown, callback: (value: string, path: readonly string[]) => Promise<unknown>, path: readonly string[] = []): Promise<unknown> {
+	if (typeof value === "string") {
+		return await callback(value, path);
+	}
+	if (value === null || typeof value !== "object" || !(Array.isArray(value) || isObjectPlain(value))) {
+		return value;
+	}
+	const result: Record<string, unknown> = (Array.isArray(value) ? [...value] : { ...value }) as Record<string, unknown>;
+	for (const [entryKey, entryValue] of Object.entries(value)) {
+		result[entryKey] = await mapStringLeaves(entryValue, callback, [...path, entryKey]);
+	}
+	return result;
+}
+/**
+ * Get the value at the path, `undefined` when not exist.
+ * @param {unknown} value Value.
+ * @param {readonly string[]} path Path.
+ * @returns {unknown} Value at the path.
+ */
+export function getValueAtPath(value: unknown, path: readonly string[]): unknown {
+	let result: unknown = value;
+	for (const segment of path) {
+		if (result === null || typeof result !== "object" || !Object.hasOwn(result, segment)) {
+			return undefined;
+		}
+		result = (result as Record<string, unknown>)[segment];
+	}
+	return result;
+}
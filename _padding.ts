@@ -0,0 +1,108 @@
+import { SymmetricCryptorFormatError } from "./_error.ts";
+export type SymmetricCryptorPaddingDefault =
+	| "padme"
+	| "power-of-two";
+export const paddingsDefault: readonly SymmetricCryptorPaddingDefault[] = [
+	"padme",
+	"power-of-two"
+];
+/**
+ * Padding to the fixed bucket sizes.
+ */
+export interface SymmetricCryptorPaddingBuckets {
+	/**
+	 * Sizes of the buckets in bytes, must be positive integers. The data is padded to the smallest bucket which is able to contain it, or to the multiple of the largest bucket when it is larger than all of the buckets.
+	 */
+	buckets: readonly number[];
+}
+export type SymmetricCryptorPadding = SymmetricCryptorPaddingDefault | SymmetricCryptorPaddingBuckets;
+const paddingIDBuckets: number = 255;
+const paddingMarker: number = 0x80;
+/**
+ * Validate the padding option.
+ * @param {SymmetricCryptorPadding | undefined} padding Padding.
+ * @returns {SymmetricCryptorPadding | undefined} Padding, with the buckets in ascending order.
+ */
+export function resolvePadding(padding: SymmetricCryptorPadding | undefined): SymmetricCryptorPadding | undefined {
+	if (typeof padding === "undefined") {
+		return undefined;
+	}
+	if (typeof padding === "string") {
+		if (!paddingsDefault.includes(padding)) {
+			throw new RangeError(`\`${padding}\` is not a valid padding! Only accept these values: ${paddingsDefault.join(", ")}, buckets`);
+		}
+		return padding;
+	}
+	if (!(Array.isArray(padding.buckets) && padding.buckets.length > 0)) {
+		throw new TypeError(`Parameter \`padding.buckets\` is not an array which is non empty!`);
+	}
+	for (const bucket of padding.buckets) {
+		if (!(Number.isSafeInteger(bucket) && bucket > 0)) {
+			throw new RangeError(`\`${bucket}\` (parameter \`padding.buckets[]\`) is not a number which is integer, positive, and safe!`);
+		}
+	}
+	return { buckets: [...padding.buckets].sort((a: number, b: number): number => {
+		return a - b;
+	}) };
+}
+/**
+ * Resolve the padded length by the padding.
+ * @param {SymmetricCryptorPadding} padding Padding.
+ * @param {number} length Length of the data, include the padding marker.
+ * @returns {number} Padded length.
+ */
+function resolvePaddedLength(padding: SymmetricCryptorPadding, length: number): number {
+	if (padding === "padme") {
+		// PADMÉ, from "Reducing Metadata Leakage from Encrypted Files and Communication with PURBs"; Leak at most O(log log L) bits, with at most 12% overhead.
+		const exponent: number = Math.floor(Math.log2(length));
+		const bitsLast: number = (exponent === 0) ? 0 : (exponent - (Math.floor(Math.log2(exponent)) + 1));
+		const unit: number = 2 ** bitsLast;
+		return Math.ceil(length / unit) * unit;
+	}
+	if (padding === "power-of-two") {
+		return 2 ** Math.ceil(Math.log2(length));
+	}
+	for (const bucket of padding.buckets) {
+		if (length <= bucket) {
+			return bucket;
+		}
+	}
+	const bucketLargest: number = padding.buckets[padding.buckets.length - 1];
+	return Math.ceil(length / bucketLargest) * bucketLargest;
+}
+/**
+ * Pad the data, and encode the padding into the value of the cipher text header extension.
+ *
+ * Data is padded by the ISO/IEC 7816-4 method: A marker byte `0x80` follow by the zero bytes, thus always at least 1 byte is added.
+ *
+ * Layout of the value of the cipher text header extension:
+ *
+ * - Padding ID (uint8), `255` for the buckets.
+ * @param {SymmetricCryptorPadding} padding Padding.
+ * @param {Uint8Array} data Data.
+ * @returns {{ data: Uint8Array; header: Uint8Array; }} Padded data, and the value of the cipher text header extension.
+ */
+export function padData(padding: SymmetricCryptorPadding, data: Uint8Array): { data: Uint8Array; header: Uint8Array; } {
+	const result: Uint8Array = new Uint8Array(resolvePaddedLength(padding, data.length + 1));
+	result.set(data, 0);
+	result[data.length] = paddingMarker;
+	return {
+		data: result,
+		header: Uint8Array.of((typeof padding === "string") ? (paddingsDefault.indexOf(padding) + 1) : paddingIDBuckets)
+	};
+}
+/**
+ * Remove the padding of the data.
+ * @param {Uint8Array} data Padded data.
+ * @returns {Uint8Array} Data.
+ */
+export function unpadData(data: Uint8Array): Uint8Array {
+	let index: number = data.length - 1;
+	while (index >= 0 && data[index] === 0) {
+		index -= 1;
+	}
+	if (index < 0 || data[index] !== paddingMarker) {
+		throw new SymmetricCryptorFormatError(`Unable to remove the padding of the cipher text, the padding is malformed!`);
+	}
+	return data.slice(0, index);
+}
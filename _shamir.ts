@@ -0,0 +1,103 @@
+// Shamir secret sharing over GF(256), with the reduction polynomial of AES (i.e.: x^8 + x^4 + x^3 + x + 1).
+const gfExp: Uint8Array = new Uint8Array(510);
+const gfLog: Uint8Array = new Uint8Array(256);
+for (let index: number = 0, value: number = 1; index < 255; index += 1) {
+	gfExp[index] = value;
+	gfExp[index + 255] = value;
+	gfLog[value] = index;
+	// Multiply by the generator 3.
+	value ^= (value << 1) ^ ((value & 0x80) ? 0x11B : 0);
+}
+function gfMultiply(a: number, b: number): number {
+	return ((a === 0 || b === 0) ? 0 : gfExp[gfLog[a] + gfLog[b]]);
+}
+function gfDivide(a: number, b: number): number {
+	if (b === 0) {
+		throw new RangeError(`Division by zero in GF(256)!`);
+	}
+	return ((a === 0) ? 0 : gfExp[gfLog[a] + 255 - gfLog[b]]);
+}
+export interface ShamirShare {
+	/**
+	 * X coordinate of the share, between 1 and 255.
+	 */
+	x: number;
+	/**
+	 * Y coordinates of the share, 1 byte for each byte of the secret.
+	 */
+	y: Uint8Array<ArrayBuffer>;
+}
+/**
+ * Split the secret into the shares, which any `threshold` of them is able to recover the secret.
+ * @param {Uint8Array} secret Secret.
+ * @param {number} count Count of the shares, between 1 and 255.
+ * @param {number} threshold Threshold, between 1 and the count of the shares.
+ * @returns {ShamirShare[]} Shares.
+ */
+export function splitSecret(secret: Uint8Array, count: number, threshold: number): ShamirShare[] {
+	if (!(Number.isSafeInteger(count) && count >= 1 && count <= 255)) {
+		throw new RangeError(`\`${count}\` (parameter \`count\`) is not a number which is integer, safe, and between 1 and 255!`);
+	}
+	if (!(Number.isSafeInteger(threshold) && threshold >= 1 && threshold <= count)) {
+		throw new RangeError(`\`${threshold}\` (parameter \`threshold\`) is not a number which is integer, safe, and between 1 and ${count}!`);
+	}
+	// Coefficients of the polynomial of each byte, the constant term is the byte of the secret.
+	const coefficients: Uint8Array = crypto.getRandomValues(new Uint8Array(secret.length * (threshold - 1)));
+	const shares: ShamirShare[] = [];
+	for (let x: number = 1; x <= count; x += 1) {
+		const y: Uint8Array<ArrayBuffer> = new Uint8Array(secret.length);
+		for (let indexByte: number = 0; indexByte < secret.length; indexByte += 1) {
+			// Horner's method, from the highest degree.
+			let value: number = 0;
+			for (let degree: number = threshold - 1; degree >= 1; degree -= 1) {
+				value = gfMultiply(value, x) ^ coefficients[indexByte * (threshold - 1) + degree - 1];
+			}
+			y[indexByte] = gfMultiply(value, x) ^ secret[indexByte];
+		}
+		shares.push({
+			x,
+			y
+		});
+	}
+	coefficients.fill(0);
+	return shares;
+}
+/**
+ * Combine the shares to recover the secret by the Lagrange interpolation; The count of the shares must be at least the threshold, otherwise the result is a wrong secret.
+ * @param {readonly ShamirShare[]} shares Shares.
+ * @returns {Uint8Array<ArrayBuffer>} Secret.
+ */
+export function combineShares(shares: readonly ShamirShare[]): Uint8Array<ArrayBuffer> {
+	if (shares.length === 0) {
+		throw new RangeError(`Parameter \`shares\` is empty!`);
+	}
+	const xs: Set<number> = new Set<number>();
+	for (const share of shares) {
+		if (!(Number.isSafeInteger(share.x) && share.x >= 1 && share.x <= 255) || xs.has(share.x)) {
+			throw new RangeError(`\`${share.x}\` (parameter \`shares[].x\`) is not a number which is integer, safe, between 1 and 255, and unique!`);
+		}
+		if (share.y.length !== shares[0].y.length) {
+			throw new RangeError(`Parameter \`shares[].y\` are not the same length!`);
+		}
+		xs.add(share.x);
+	}
+	// Lagrange basis polynomials at x = 0.
+	const bases: number[] = shares.map((share: ShamirShare, index: number): number => {
+		let basis: number = 1;
+		for (let indexOther: number = 0; indexOther < shares.length; indexOther += 1) {
+			if (indexOther !== index) {
+				basis = gfMultiply(basis, gfDivide(shares[indexOther].x, shares[indexOther].x ^ share.x));
+			}
+		}
+		return basis;
+	});
+	const secret: Uint8Array<ArrayBuffer> = new Uint8Array(shares[0].y.length);
+	for (let indexByte: number = 0; indexByte < secret.length; indexByte += 1) {
+		let value: number = 0;
+		for (let index: number = 0; index < shares.length; index += 1) {
+			value ^= gfMultiply(shares[index].y[indexByte], bases[index]);
+		}
+		secret[indexByte] = value;
+	}
+	return secret;
+}
@@ -0,0 +1,90 @@
+import {
+	SymmetricCryptorFormatError,
+	SymmetricCryptorTokenTimestampError
+} from "./_error.ts";
+import { concatBytes } from "./_header.ts";
+export interface TokenDecoded {
+	data: Uint8Array;
+	/**
+	 * Issue timestamp, in seconds since the epoch.
+	 */
+	timestamp: number;
+}
+export interface TokenTimestampVerifyOptions {
+	/**
+	 * Tolerance of the clock skew for the token which is issued in the future, in seconds.
+	 */
+	clockSkew: number;
+	/**
+	 * Current timestamp, in seconds since the epoch.
+	 */
+	now: number;
+	/**
+	 * Time to live, in seconds; Not check the expiration when undefined.
+	 */
+	ttl?: number;
+}
+const tokenVersion: number = 0x80;
+/**
+ * Context of the native token, which bind as the additional authenticated data in order to distinguish the token from the cipher text of the same keys.
+ */
+const tokenContext: Uint8Array<ArrayBuffer> = new TextEncoder().encode("symmetric-crypto token");
+/**
+ * Resolve the additional authenticated data of the native token.
+ * @param {Uint8Array<ArrayBuffer> | undefined} additionalData Additional authenticated data from the options.
+ * @returns {Uint8Array<ArrayBuffer>} Additional authenticated data of the native token.
+ */
+export function resolveTokenAdditionalData(additionalData: Uint8Array<ArrayBuffer> | undefined): Uint8Array<ArrayBuffer> {
+	return concatBytes(tokenContext, additionalData ?? new Uint8Array(0));
+}
+/**
+ * Encode the payload of the native token.
+ *
+ * Layout:
+ *
+ * - Version (uint8), always `0x80`.
+ * - Issue timestamp in seconds (uint64).
+ * - Data.
+ * @param {number} timestamp Issue timestamp, in seconds since the epoch.
+ * @param {Uint8Array} data Data.
+ * @returns {Uint8Array<ArrayBuffer>} Payload.
+ */
+export function encodeTokenPayload(timestamp: number, data: Uint8Array): Uint8Array<ArrayBuffer> {
+	const timestampRaw: Uint8Array<ArrayBuffer> = new Uint8Array(8);
+	new DataView(timestampRaw.buffer).setBigUint64(0, BigInt(timestamp));
+	return concatBytes(Uint8Array.of(tokenVersion), timestampRaw, data);
+}
+/**
+ * Decode the payload of the native token.
+ * @param {Uint8Array} payload Payload.
+ * @returns {TokenDecoded} Data, and the issue timestamp.
+ */
+export function decodeTokenPayload(payload: Uint8Array): TokenDecoded {
+	if (!(payload.length >= 1 + 8 && payload[0] === tokenVersion)) {
+		throw new SymmetricCryptorFormatError(`Cipher text is not a token!`);
+	}
+	return {
+		data: payload.slice(1 + 8),
+		timestamp: Number(new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getBigUint64(1))
+	};
+}
+/**
+ * Verify the issue timestamp of the token.
+ * @param {number} timestamp Issue timestamp, in seconds since the epoch.
+ * @param {TokenTimestampVerifyOptions} options Options.
+ * @returns {void}
+ */
+export function verifyTokenTimestamp(timestamp: number, options: TokenTimestampVerifyOptions): void {
+	const {
+		clockSkew,
+		now,
+		ttl
+	}: TokenTimestampVerifyOptions = options;
+	if (timestamp > now + clockSkew) {
+		throw new SymmetricCryptorTokenTimestampError(`Token is issued in the future!`, { issuedAt: new Date(timestamp * 1000) });
+	}
+	// Clock skew is only tolerate the token which is issued in the future, same as the Fernet reference implementation.
+	if (typeof ttl !== "undefined" && now > timestamp + ttl) {
+		throw new SymmetricCryptorTokenTimestampError(`Token is expired!`, { issuedAt: new Date(timestamp * 1000) });
+	}
+}
@@ -1,40 +1,376 @@
 import { Buffer } from "node:buffer";
-export type SymmetricCryptorAlgorithm =
-	| "AES-CBC"
-	| "AES-CTR"
-	| "AES-GCM";
-const algorithms: readonly SymmetricCryptorAlgorithm[] = [
-	"AES-CBC",
-	"AES-CTR",
-	"AES-GCM"
+import {
+	algorithmsRegistry,
+	resolveAlgorithmEntry,
+	resolveAlgorithmFromID,
+	resolveAlgorithmFromJWK,
+	type SymmetricCryptorAlgorithm,
+	type SymmetricCryptorAlgorithmEntry,
+	type SymmetricCryptorCipher
+} from "./_algorithm.ts";
+import {
+	compressData,
+	decompressData,
+	resolveCompression,
+	type SymmetricCryptorCompression
+} from "./_compression.ts";
+import {
+	mapConcurrent,
+	resolveConcurrency
+} from "./_concurrency.ts";
+import {
+	SymmetricCryptorAuthenticationError,
+	SymmetricCryptorConfigError,
+	SymmetricCryptorError,
+	SymmetricCryptorFormatError,
+	SymmetricCryptorKeyError
+} from "./_error.ts";
+import {
+	concatBytes,
+	decodeHeader,
+	decodeHeaderEnvelope,
+	decodeHeaderStream,
+	decodeHeaderStrings,
+	decodeHeaderThreshold,
+	encodeHeader,
+	encodeHeaderEnvelope,
+	encodeHeaderStream,
+	encodeHeaderStrings,
+	encodeHeaderThreshold,
+	headerEnvelopeMagic,
+	headerExtensionCompression,
+	headerExtensionKeysID,
+	headerExtensionKeysLength,
+	headerExtensionPadding,
+	headerLayerFlagMAC,
+	headerLayerFlagSIV,
+	headerLayersCountMaximum,
+	headerStreamMagic,
+	headerStreamNoncePrefixLength,
+	headerStreamSegmentSizeMaximum,
+	headerVersion,
+	isStartWithMagic,
+	type SymmetricCryptorHeader,
+	type SymmetricCryptorHeaderDecoded,
+	type SymmetricCryptorHeaderKey,
+	type SymmetricCryptorHeaderLayer,
+	type SymmetricCryptorHeaderThresholdShare
+} from "./_header.ts";
+import {
+	type CipherTextFormatDetected,
+	decodeJWE,
+	decryptFernet,
+	decryptJWE,
+	decryptOpenSSL,
+	detectCipherTextFormat,
+	encryptFernet,
+	encryptJWE,
+	encryptOpenSSL,
+	isJWECompact,
+	type JWEDecoded,
+	type JWEEncryptOptions,
+	type OpenSSLOptions
+} from "./_interop.ts";
+import {
+	deserializeJSON,
+	mapFields,
+	serializeJSON,
+	type SymmetricCryptorFieldPath
+} from "./_json.ts";
+import {
+	padData,
+	resolvePadding,
+	unpadData,
+	type SymmetricCryptorPadding
+} from "./_padding.ts";
+import {
+	combineShares,
+	type ShamirShare,
+	splitSecret
+} from "./_shamir.ts";
+import {
+	decodeTokenPayload,
+	encodeTokenPayload,
+	resolveTokenAdditionalData,
+	verifyTokenTimestamp,
+	type TokenDecoded
+} from "./_token.ts";
+export type { SymmetricCryptorAlgorithm } from "./_algorithm.ts";
+export type {
+	SymmetricCryptorCompression,
+	SymmetricCryptorCompressionCustom,
+	SymmetricCryptorCompressionDefault
+} from "./_compression.ts";
+export {
+	SymmetricCryptorAuthenticationError,
+	SymmetricCryptorConfigError,
+	SymmetricCryptorError,
+	type SymmetricCryptorErrorOptions,
+	SymmetricCryptorFormatError,
+	SymmetricCryptorKeyError,
+	SymmetricCryptorTokenTimestampError,
+	type SymmetricCryptorTokenTimestampErrorOptions,
+	SymmetricCryptorUnsupportedVersionError
+} from "./_error.ts";
+export type { SymmetricCryptorFieldPath } from "./_json.ts";
+export type {
+	SymmetricCryptorPadding,
+	SymmetricCryptorPaddingBuckets,
+	SymmetricCryptorPaddingDefault
+} from "./_padding.ts";
+const algorithms: readonly SymmetricCryptorAlgorithm[] = Array.from(algorithmsRegistry.keys());
+const kdfIDNone: number = 0;
+const kdfIDSHA256: number = 1;
+const kdfIDPBKDF2: number = 2;
+const kdfIDCustom: number = 255;
+/**
+ * Hash of the key derivation function.
+ */
+export type SymmetricCryptorKDFHash =
+	| "SHA-256"
+	| "SHA-384"
+	| "SHA-512";
+const kdfHashes: readonly SymmetricCryptorKDFHash[] = [
+	"SHA-256",
+	"SHA-384",
+	"SHA-512"
+];
+/**
+ * Key derivation function of the symmetric cryptor, with the default parameters.
+ *
+ * - **`"none"`:** Use the key directly, key must be 16, 24, or 32 bytes.
+ * - **`"PBKDF2"`:** PBKDF2 with the default parameters.
+ * - **`"SHA-256"`:** SHA-256 digest of the key, without salt; Only for compatibility with the legacy cipher text.
+ */
+export type SymmetricCryptorKDFDefault =
+	| "none"
+	| "PBKDF2"
+	| "SHA-256";
+const kdfsDefault: readonly SymmetricCryptorKDFDefault[] = [
+	"none",
+	"PBKDF2",
+	"SHA-256"
 ];
+export interface SymmetricCryptorKDFPBKDF2Options {
+	name: "PBKDF2";
+	/**
+	 * Hash of the PBKDF2.
+	 * @default {"SHA-256"}
+	 */
+	hash?: SymmetricCryptorKDFHash;
+	/**
+	 * Iterations of the PBKDF2, at most 10000000.
+	 * @default {600000}
+	 */
+	iterations?: number;
+	/**
+	 * Length of the random salt, which generate on each encryption.
+	 * @default {16}
+	 */
+	saltLength?: number;
+}
+/**
+ * Custom key derivation function.
+ * @param {Uint8Array} key Key.
+ * @param {Uint8Array} salt Salt.
+ * @param {number} length Length of the derived key, in bytes.
+ * @returns {Uint8Array | Promise<Uint8Array>} Derived key.
+ */
+export type SymmetricCryptorKDFCustomDerive = (key: Uint8Array, salt: Uint8Array, length: number) => Uint8Array | Promise<Uint8Array>;
+export interface SymmetricCryptorKDFCustomOptions {
+	name: "custom";
+	/**
+	 * Derivation of the custom key derivation function (e.g.: scrypt, Argon2).
+	 */
+	derive: SymmetricCryptorKDFCustomDerive;
+	/**
+	 * ID of the custom key derivation function, which record in the cipher text to identify the custom key derivation function on decryption.
+	 */
+	id: string;
+	/**
+	 * Length of the random salt, which generate on each encryption.
+	 * @default {16}
+	 */
+	saltLength?: number;
+}
+type SymmetricCryptorKDFResolved =
+	| { name: "none"; }
+	| { name: "SHA-256"; }
+	| Required<SymmetricCryptorKDFPBKDF2Options>
+	| Required<SymmetricCryptorKDFCustomOptions>;
+const kdfDerivedLength: number = 32;
+// Iterations are read from the cipher text on decryption, which must be bounded to prevent the denial of service.
+const kdfPBKDF2IterationsMaximum: number = 10000000;
+function resolveKDF(kdf: SymmetricCryptorKDFDefault | SymmetricCryptorKDFPBKDF2Options | SymmetricCryptorKDFCustomOptions): SymmetricCryptorKDFResolved {
+	const kdfFmt: SymmetricCryptorKDFPBKDF2Options | SymmetricCryptorKDFCustomOptions | { name: "none" | "SHA-256"; } = (typeof kdf === "string") ? { name: kdf } as SymmetricCryptorKDFPBKDF2Options | { name: "none" | "SHA-256"; } : kdf;
+	switch (kdfFmt.name) {
+		case "none":
+		case "SHA-256":
+			return { name: kdfFmt.name };
+		case "PBKDF2": {
+			const {
+				hash = "SHA-256",
+				iterations = 600000,
+				saltLength = 16
+			}: SymmetricCryptorKDFPBKDF2Options = kdfFmt;
+			if (!kdfHashes.includes(hash)) {
+				throw new RangeError(`\`${hash}\` is not a valid key derivation function hash! Only accept these values: ${kdfHashes.join(", ")}`);
+			}
+			if (!(Number.isSafeInteger(iterations) && iterations >= 1 && iterations <= kdfPBKDF2IterationsMaximum)) {
+				throw new RangeError(`\`${iterations}\` (parameter \`kdf.iterations\`) is not a number which is integer, safe, and between 1 and ${kdfPBKDF2IterationsMaximum}!`);
+			}
+			if (!(Number.isSafeInteger(saltLength) && saltLength >= 8 && saltLength <= 255)) {
+				throw new RangeError(`\`${saltLength}\` (parameter \`kdf.saltLength\`) is not a number which is integer, safe, and between 8 and 255!`);
+			}
+			return {
+				name: "PBKDF2",
+				hash,
+				iterations,
+				saltLength
+			};
+		}
+		case "custom": {
+			const {
+				derive,
+				id,
+				saltLength = 16
+			}: SymmetricCryptorKDFCustomOptions = kdfFmt;
+			if (typeof derive !== "function") {
+				throw new TypeError(`Parameter \`kdf.derive\` is not a function!`);
+			}
+			if (!(id.length > 0 && new TextEncoder().encode(id).length <= 255)) {
+				throw new RangeError(`\`${id}\` (parameter \`kdf.id\`) is not a string which is non empty, and <= 255 bytes!`);
+			}
+			if (!(Number.isSafeInteger(saltLength) && saltLength >= 0 && saltLength <= 255)) {
+				throw new RangeError(`\`${saltLength}\` (parameter \`kdf.saltLength\`) is not a number which is integer, safe, and between 0 and 255!`);
+			}
+			return {
+				name: "custom",
+				derive,
+				id,
+				saltLength
+			};
+		}
+		default:
+			throw new RangeError(`\`${(kdfFmt as { name: string; }).name}\` is not a valid key derivation function! Only accept these values: ${kdfsDefault.join(", ")}, custom`);
+	}
+}
 /**
  * Type of the key of the symmetric cryptor.
+ *
+ * `CryptoKey` must be extractable, and JSON Web Key must be an octet sequence key (i.e.: `kty` is `"oct"`); The key derivation function of these keys is default to `"none"`, and the algorithm is default to the algorithm of the key (if any).
  */
 export type SymmetricCryptorKeyType =
 	| string
 	| ArrayBuffer
 	| BigUint64Array
+	| CryptoKey
 	| DataView
+	| JsonWebKey
 	| Uint8Array
 	| Uint16Array
 	| Uint32Array;
+/**
+ * Length of the crypto key, in bits.
+ */
+export type SymmetricCryptorKeyLength =
+	| 128
+	| 192
+	| 256;
+const keyLengths: readonly SymmetricCryptorKeyLength[] = [
+	128,
+	192,
+	256
+];
+/**
+ * Format of the exported key.
+ *
+ * - **`"base64"`:** Base64 string.
+ * - **`"base64url"`:** Base64URL string.
+ * - **`"jwk"`:** JSON Web Key.
+ * - **`"raw"`:** Bytes.
+ */
+export type SymmetricCryptorKeyFormat =
+	| "base64"
+	| "base64url"
+	| "jwk"
+	| "raw";
+const keyFormats: readonly SymmetricCryptorKeyFormat[] = [
+	"base64",
+	"base64url",
+	"jwk",
+	"raw"
+];
+/**
+ * Provider of the keys, for the keys which are managed externally (e.g.: vault, secret manager), the symmetric cryptor call it lazily when the key is needed.
+ *
+ * The key ID is record in the cipher text, to get the key from the provider on decryption.
+ */
+export interface SymmetricCryptorKeyProvider {
+	/**
+	 * Get the ID of the current key, which use for the encryption.
+	 * @returns {string | Promise<string>} ID of the current key.
+	 */
+	getCurrentKeyId(): string | Promise<string>;
+	/**
+	 * Get the key by the key ID.
+	 * @param {string} keyId ID of the key.
+	 * @returns {SymmetricCryptorKeyType | undefined | Promise<SymmetricCryptorKeyType | undefined>} Key, or `undefined` when the key is not exist.
+	 */
+	getKey(keyId: string): SymmetricCryptorKeyType | undefined | Promise<SymmetricCryptorKeyType | undefined>;
+}
 /**
  * Key input of the symmetric cryptor.
  */
 export interface SymmetricCryptorKeyInput {
 	/**
 	 * Algorithm of the symmetric cryptor.
-	 * @default {"AES-CBC"}
+	 * @default {"AES-CBC"} When the key is a `CryptoKey` or a JSON Web Key which has the algorithm, default is the algorithm of the key.
 	 */
 	algorithm?: SymmetricCryptorAlgorithm;
 	/**
-	 * Key of the symmetric cryptor.
+	 * ID of the key, which record in the cipher text to select the key on decryption, useful for the key rotation (see property {@linkcode SymmetricCryptorOptions.retiredKeys}).
+	 *
+	 * Not support the key provider, which provide the key ID itself.
+	 */
+	id?: string;
+	/**
+	 * Key derivation function of the symmetric cryptor, to derive the crypto key from the key.
+	 *
+	 * The salt (if any) and the parameters of the key derivation function are record in the cipher text header, therefore changing this does not affect the decryption of the existing cipher text.
+	 * @default {"PBKDF2"} When property {@linkcode SymmetricCryptorOptions.legacy} is `true`, default is `"SHA-256"`; When the key is a `CryptoKey` or a JSON Web Key, default is `"none"`.
+	 */
+	kdf?: SymmetricCryptorKDFDefault | SymmetricCryptorKDFPBKDF2Options | SymmetricCryptorKDFCustomOptions;
+	/**
+	 * Key of the symmetric cryptor, or the provider of the keys.
 	 */
-	key: SymmetricCryptorKeyType;
+	key: SymmetricCryptorKeyType | SymmetricCryptorKeyProvider;
+	/**
+	 * Length of the crypto key which derive from the key, in bits; The length is record in the cipher text header.
+	 *
+	 * When the key derivation function is `"none"`, the length of the key is use, and must be the same as this if defined.
+	 * @default {256}
+	 */
+	length?: SymmetricCryptorKeyLength;
 }
 export type SymmetricCryptorCipherTextDecoder = (data: string) => Uint8Array | Promise<Uint8Array>;
 export type SymmetricCryptorCipherTextEncoder = (data: Uint8Array) => string | Promise<string>;
+/**
+ * Format of the cipher text.
+ *
+ * - **`"jwe"`:** JWE compact serialization with the content encryption algorithm AES-GCM; The key management algorithm is `dir` when the key derivation function is `"none"`, or `PBES2-HS*+A*KW` when the key derivation function is `"PBKDF2"` (iterations between 1000 and 1000000, include the `p2c` of the JWE on decryption).
+ * - **`"native"`:** Format of this library.
+ * - **`"openssl"`:** OpenSSL `enc` format (i.e.: `Salted__`) with the PBKDF2, which is compatible with `openssl enc -aes-256-cbc -pbkdf2 -iter <iterations> -md sha256`; Only support the algorithms `"AES-CBC"` and `"AES-CTR"`, and the key derivation function `"PBKDF2"`.
+ */
+export type SymmetricCryptorCipherTextFormat =
+	| "jwe"
+	| "native"
+	| "openssl";
+const cipherTextFormats: readonly SymmetricCryptorCipherTextFormat[] = [
+	"jwe",
+	"native",
+	"openssl"
+];
 export type SymmetricCryptorCipherTextCoderDefault =
 	| "base64"
 	| "base64url";
@@ -52,85 +388,784 @@ export interface SymmetricCryptorCipherTextCoderOptions {
 	 */
 	encoder: SymmetricCryptorCipherTextEncoder;
 }
+/**
+ * Additional authenticated data of the symmetric cryptor.
+ */
+export type SymmetricCryptorAdditionalData = string | Uint8Array;
 export interface SymmetricCryptorOptions {
+	/**
+	 * Default additional authenticated data (AAD), to bind the cipher text to its context (e.g.: record ID, tenant ID, column name); Only support the AEAD algorithms (i.e.: `"AES-GCM"`, `"ChaCha20-Poly1305"`, `"XChaCha20-Poly1305"`), or the other algorithms with property {@linkcode mac} enabled.
+	 *
+	 * The decryption will fail if the additional authenticated data is not match.
+	 */
+	additionalData?: SymmetricCryptorAdditionalData;
 	/**
 	 * Coder of the stringify cipher text.
 	 * @default {"base64"}
 	 */
 	cipherTextCoder?: SymmetricCryptorCipherTextCoderDefault | SymmetricCryptorCipherTextCoderOptions;
+	/**
+	 * Format of the cipher text, to interoperate with the other tools and languages; The formats other than `"native"` only support the single key with 1 time, and not support the additional authenticated data, deterministic encryption, envelope encryption, and legacy cipher text format.
+	 *
+	 * On decryption, the JWE compact serialization and the OpenSSL `enc` format are detect automatically regardless of this.
+	 *
+	 * The JWE compact serialization is already a string, therefore not use the property {@linkcode cipherTextCoder}.
+	 * @default {"native"}
+	 */
+	cipherTextFormat?: SymmetricCryptorCipherTextFormat;
+	/**
+	 * Compression of the data before the encryption, which is record in the cipher text header, so that the decryption decompress automatically; The data is store uncompressed when the compression does not reduce the size.
+	 *
+	 * > **⚠️ Warning**
+	 * >
+	 * > The length of the compressed cipher text leaks the information of the data (e.g.: CRIME, BREACH). Do not compress the data which mix the secret with the data which is influenced by the attacker, or opt-out for these data by the property {@linkcode SymmetricCryptorCryptOptions.compression}.
+	 *
+	 * Not apply to the deterministic encryption and the stream, and not support the envelope encryption, the cipher text formats other than `"native"`, and the legacy cipher text format.
+	 */
+	compression?: SymmetricCryptorCompression;
+	/**
+	 * Whether to use the envelope encryption, the keys only act as the key encryption keys: Each encryption generate a random data key to encrypt the data with AES-GCM, and the data key is wrapped (i.e.: encrypted) by the keys and store in the cipher text header.
+	 *
+	 * Use method {@linkcode SymmetricCryptorBasic.rewrap} to change the keys by rewrap the data key only, without re-encrypt the data. Not support the legacy cipher text format.
+	 * @default {false}
+	 */
+	envelope?: boolean;
+	/**
+	 * Whether to use the legacy cipher text format, which is headerless.
+	 *
+	 * By default, the cipher text start with a versioned header which record the algorithm, key derivation, and layers, so that the cipher text is able to decrypt regardless of the current options (e.g.: algorithm, times).
+	 *
+	 * When enable, the cipher text will not have the header, and the decryption will always use the current options; Cipher text without the header (i.e.: the cipher text of the previous versions) is only able to decrypt when enable, as it is unauthenticated.
+	 * @default {false}
+	 */
+	legacy?: boolean;
+	/**
+	 * Whether to authenticate the layers of the non AEAD algorithms (i.e.: `"AES-CBC"`, `"AES-CTR"`, `"AES-KW"`) with HMAC-SHA-256 (i.e.: Encrypt-then-MAC), to detect the tampering of the cipher text before any decryption is attempted.
+	 *
+	 * The MAC key is derived separately from the crypto key. When enable, the cipher text which has any unauthenticated layer is rejected on decryption. Not support the legacy cipher text format.
+	 * @default {true} When property {@linkcode legacy} is `true`, default is `false`.
+	 */
+	mac?: boolean;
+	/**
+	 * Padding of the data before the encryption, to hide the length of the data, so that the data of the different lengths become indistinguishable by the size of the cipher text.
+	 *
+	 * - **`"padme"`:** PADMÉ, round up the length with at most 12% overhead, and leak at most O(log log L) bits of the length.
+	 * - **`"power-of-two"`:** Round up the length to the power of two, with at most 100% overhead.
+	 * - **`{ buckets }`:** Round up the length to the fixed bucket sizes.
+	 *
+	 * The padding is applied inside the authenticated payload (after the compression, if any), record in the cipher text header, and remove on the decryption automatically. Not apply to the stream, and not support the envelope encryption, the cipher text formats other than `"native"`, and the legacy cipher text format.
+	 */
+	padding?: SymmetricCryptorPadding;
+	/**
+	 * Retired keys of the symmetric cryptor, which only use for the decryption, useful for the key rotation.
+	 *
+	 * On decryption, the key is select by the key ID which record in the cipher text (see property {@linkcode SymmetricCryptorKeyInput.id}); When the cipher text does not have the key ID and only require 1 key, the current key and then the retired keys are tried in order.
+	 *
+	 * Use method {@linkcode SymmetricCryptorBasic.reencrypt} to upgrade the cipher text to the current keys.
+	 */
+	retiredKeys?: readonly (SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[];
+	/**
+	 * Threshold of the keys, only for the multiple keys: The keys act as the custodian keys instead of the layers, any `threshold` of the keys is able to decrypt.
+	 *
+	 * Each encryption generate a random data key to encrypt the data with AES-GCM, the data key is split with the Shamir secret sharing over GF(256), and each share is wrapped (i.e.: encrypted) by one of the keys and store in the cipher text header. On decryption, the symmetric cryptor only need to have at least `threshold` of the keys (in any order, include the retired keys), and it is not require to set this property.
+	 *
+	 * Key ID (see property {@linkcode SymmetricCryptorKeyInput.id}) is recommended, otherwise each key is tried against each share. Not support the compression, the envelope encryption, the padding, and the legacy cipher text format.
+	 */
+	threshold?: number;
 	/**
 	 * Times of the crypto.
 	 * @default {1}
 	 */
 	times?: number;
 }
-class SymmetricCryptorService {
+export interface SymmetricCryptorCryptOptions {
+	/**
+	 * Additional authenticated data (AAD) of this crypto, override the property {@linkcode SymmetricCryptorOptions.additionalData}.
+	 */
+	additionalData?: SymmetricCryptorAdditionalData;
+	/**
+	 * Whether to compress the data of this crypto when the property {@linkcode SymmetricCryptorOptions.compression} is defined; Set to `false` to opt-out for the data which is influenced by the attacker. Only apply to the encryption.
+	 * @default {true}
+	 */
+	compression?: boolean;
+}
+export interface SymmetricCryptorStreamOptions extends SymmetricCryptorCryptOptions {
+	/**
+	 * Size of the plain text of each segment, in bytes; Larger segment size has lower overhead, but use more memory.
+	 * @default {65536}
+	 */
+	segmentSize?: number;
+}
+/**
+ * Format of the token.
+ *
+ * - **`"fernet"`:** Fernet token (see https://github.com/fernet/spec), interoperable with the other Fernet implementations (e.g.: Python `cryptography.fernet`); Require a single key with the key derivation function `"none"`, which is the 32 bytes decoded Fernet key.
+ * - **`"native"`:** Cipher text of the symmetric cryptor, with the issue timestamp inside the encrypted data.
+ */
+export type SymmetricCryptorTokenFormat =
+	| "fernet"
+	| "native";
+const tokenFormats: readonly SymmetricCryptorTokenFormat[] = [
+	"fernet",
+	"native"
+];
+export interface SymmetricCryptorTokenOptions extends SymmetricCryptorCryptOptions {
+	/**
+	 * Clock to get the current time, in milliseconds since the epoch; Useful for the tests.
+	 * @default {Date.now}
+	 */
+	clock?: () => number;
+	/**
+	 * Format of the token.
+	 * @default {"native"}
+	 */
+	format?: SymmetricCryptorTokenFormat;
+}
+export interface SymmetricCryptorTokenDecryptOptions extends SymmetricCryptorTokenOptions {
+	/**
+	 * Tolerance of the clock skew between the issuer and the verifier, in seconds; Only apply to the token which is issued in the future, not extend the property {@linkcode ttl}.
+	 * @default {60}
+	 */
+	clockSkew?: number;
+	/**
+	 * Time to live of the token, in seconds; The token is not expire when undefined.
+	 */
+	ttl?: number;
+}
+export interface SymmetricCryptorBatchOptions extends SymmetricCryptorCryptOptions {
+	/**
+	 * Maximum number of the items to process at the same time.
+	 * @default {4}
+	 */
+	concurrency?: number;
+}
+export interface SymmetricCryptorBatchDecryptOptions extends SymmetricCryptorBatchOptions {
+	/**
+	 * Whether to return the result of each item, instead of reject the whole batch when any item is fail to decrypt.
+	 * @default {false}
+	 */
+	settled?: boolean;
+}
+export interface SymmetricCryptorBatchResultFulfilled<T> {
+	ok: true;
+	value: T;
+}
+export interface SymmetricCryptorBatchResultRejected {
+	error: unknown;
+	ok: false;
+}
+/**
+ * Result of an item of the batch, when the property {@linkcode SymmetricCryptorBatchDecryptOptions.settled} is `true`.
+ */
+export type SymmetricCryptorBatchResult<T> = SymmetricCryptorBatchResultFulfilled<T> | SymmetricCryptorBatchResultRejected;
+function resolveAdditionalData(additionalData: SymmetricCryptorAdditionalData | undefined): Uint8Array<ArrayBuffer> | undefined {
+	if (typeof additionalData === "undefined") {
+		return undefined;
+	}
+	return ((typeof additionalData === "string") ? new TextEncoder().encode(additionalData) : additionalData.slice());
+}
+function isBytesEqualTimingSafe(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let difference: number = 0;
+	for (let index: number = 0; index < a.length; index += 1) {
+		difference |= a[index] ^ b[index];
+	}
+	return (difference === 0);
+}
+const macInfo: Uint8Array<ArrayBuffer> = new TextEncoder().encode("hugoalh/symmetric-crypto MAC");
+const macLength: number = 32;
+const sivInfo: Uint8Array<ArrayBuffer> = new TextEncoder().encode("hugoalh/symmetric-crypto SIV");
+class SymmetricCryptorKeyMaterial {
+	#ciphers: Map<SymmetricCryptorAlgorithm, Promise<SymmetricCryptorCipher>> = new Map<SymmetricCryptorAlgorithm, Promise<SymmetricCryptorCipher>>();
+	#keyMaterial: Uint8Array<ArrayBuffer>;
+	#macKeys: Map<Uint8Array, Promise<CryptoKey>> = new Map<Uint8Array, Promise<CryptoKey>>();
+	constructor(keyMaterial: Uint8Array<ArrayBuffer>) {
+		if (!(
+			keyMaterial.length === 16 ||
+			keyMaterial.length === 24 ||
+			keyMaterial.length === 32
+		)) {
+			throw new SymmetricCryptorKeyError(`Key material is not 16, 24, or 32 bytes!`);
+		}
+		this.#keyMaterial = keyMaterial;
+	}
+	get length(): number {
+		return this.#keyMaterial.length;
+	}
+	async #getCipher(algorithm: SymmetricCryptorAlgorithm, layer?: number): Promise<SymmetricCryptorCipher> {
+		let cipher: Promise<SymmetricCryptorCipher> | undefined = this.#ciphers.get(algorithm);
+		if (typeof cipher === "undefined") {
+			cipher = resolveAlgorithmEntry(algorithm).import(this.#keyMaterial);
+			this.#ciphers.set(algorithm, cipher);
+		}
+		try {
+			return await cipher;
+		} catch (error) {
+			throw new SymmetricCryptorKeyError(`Unable to import the key material for the algorithm \`${algorithm}\`!`, {
+				algorithm,
+				cause: error,
+				layer
+			});
+		}
+	}
+	// The MAC key and the SIV key are independent, derive from the key material with the different info.
+	#getMACKey(info: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+		let macKey: Promise<CryptoKey> | undefined = this.#macKeys.get(info);
+		if (typeof macKey === "undefined") {
+			macKey = (async (): Promise<CryptoKey> => {
+				const baseKey: CryptoKey = await crypto.subtle.importKey("raw", this.#keyMaterial, { name: "HKDF" }, false, ["deriveKey"]);
+				return await crypto.subtle.deriveKey({
+					name: "HKDF",
+					hash: "SHA-256",
+					info,
+					salt: new Uint8Array(0)
+				}, baseKey, {
+					name: "HMAC",
+					hash: "SHA-256",
+					length: macLength * 8
+				}, false, ["sign"]);
+			})();
+			this.#macKeys.set(info, macKey);
+		}
+		return macKey;
+	}
+	async #sign(data: Uint8Array, additionalData: Uint8Array<ArrayBuffer> | undefined, info: Uint8Array<ArrayBuffer> = macInfo): Promise<Uint8Array> {
+		const additionalDataFmt: Uint8Array = additionalData ?? new Uint8Array(0);
+		const additionalDataLength: Uint8Array<ArrayBuffer> = new Uint8Array(8);
+		new DataView(additionalDataLength.buffer).setBigUint64(0, BigInt(additionalDataFmt.length) * 8n);
+		return new Uint8Array(await crypto.subtle.sign("HMAC", await this.#getMACKey(info), concatBytes(additionalDataFmt, data, additionalDataLength)));
+	}
+	async decrypt(data: Uint8Array, algorithm: SymmetricCryptorAlgorithm, additionalData?: Uint8Array<ArrayBuffer>, flags?: number, layer?: number): Promise<Uint8Array> {
+		const algorithmEntry: SymmetricCryptorAlgorithmEntry = resolveAlgorithmEntry(algorithm);
+		const saltLength: number = algorithmEntry.nonceLength;
+		const mac: boolean = ((flags ?? 0) & headerLayerFlagMAC) !== 0;
+		if (data.length < saltLength + (mac ? macLength : 0)) {
+			throw new SymmetricCryptorFormatError(`Cipher text is truncated!`, {
+				algorithm,
+				layer
+			});
+		}
+		if (mac) {
+			const tagActual: Uint8Array = data.slice(data.length - macLength);
+			data = data.slice(0, data.length - macLength);
+			if (!isBytesEqualTimingSafe(tagActual, await this.#sign(data, additionalData))) {
+				throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the cipher text, the key or the additional authenticated data is not match, or the cipher text is corrupted!`, {
+					algorithm,
+					layer
+				});
+			}
+		}
+		const salt: Uint8Array<ArrayBuffer> = data.slice(0, saltLength);
+		const dataRemain: Uint8Array<ArrayBuffer> = data.slice(saltLength);
+		const siv: boolean = ((flags ?? 0) & headerLayerFlagSIV) !== 0;
+		const cipher: SymmetricCryptorCipher = await this.#getCipher(algorithm, layer);
+		try {
+			const result: Uint8Array = await cipher.decrypt(salt, dataRemain, additionalData);
+			if (siv && !isBytesEqualTimingSafe(salt, (await this.#sign(result, additionalData, sivInfo)).slice(0, saltLength))) {
+				throw new Error(`Synthetic IV is not match!`);
+			}
+			return result;
+		} catch (error) {
+			// Unauthenticated algorithm is also able to fail (e.g.: invalid padding of the AES-CBC), which is also cause by the key is not match or the cipher text is corrupted.
+			throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the cipher text, the key or the additional authenticated data is not match, or the cipher text is corrupted!`, {
+				algorithm,
+				cause: error,
+				layer
+			});
+		}
+	}
+	async encrypt(data: Uint8Array<ArrayBuffer>, algorithm: SymmetricCryptorAlgorithm, additionalData?: Uint8Array<ArrayBuffer>, flags: number = 0): Promise<Uint8Array> {
+		const saltLength: number = resolveAlgorithmEntry(algorithm).nonceLength;
+		// Synthetic IV is the truncated HMAC of the data and the additional authenticated data, therefore the same data always result the same cipher text.
+		const salt: Uint8Array<ArrayBuffer> = ((flags & headerLayerFlagSIV) !== 0) ? (await this.#sign(data, additionalData, sivInfo)).slice(0, saltLength) : crypto.getRandomValues(new Uint8Array(saltLength));
+		const result: Uint8Array = concatBytes(salt, await (await this.#getCipher(algorithm)).encrypt(salt, data, additionalData));
+		if ((flags & headerLayerFlagMAC) !== 0) {
+			return concatBytes(result, await this.#sign(result, additionalData));
+		}
+		return result;
+	}
+}
+function isHeaderLayerAuthenticated(layer: SymmetricCryptorHeaderLayer, index: number): boolean {
+	return (resolveAlgorithmEntry(resolveAlgorithmFromID(layer.algorithm, index)).authenticated || (layer.flags & (headerLayerFlagMAC | headerLayerFlagSIV)) !== 0);
+}
+const envelopeDataKeyLength: number = 32;
+const envelopeNonceLength: number = 12;
+// The wrapped key is not part of the additional authenticated data of the body, therefore the data key is able to rewrap without touch the body.
+function resolveEnvelopeAdditionalData(additionalData: Uint8Array<ArrayBuffer> | undefined): Uint8Array<ArrayBuffer> {
+	return concatBytes(headerEnvelopeMagic, Uint8Array.of(headerVersion), additionalData ?? new Uint8Array(0));
+}
+const streamDataKeyLength: number = 32;
+const streamTagLength: number = 16;
+async function cryptStreamSegment(mode: "decrypt" | "encrypt", cryptoKey: CryptoKey, noncePrefix: Uint8Array, counter: number, last: boolean, additionalData: Uint8Array<ArrayBuffer>, data: Uint8Array): Promise<Uint8Array> {
+	if (counter > 0xFFFFFFFF) {
+		throw new RangeError(`Stream is too large, segments count is reach the limit!`);
+	}
+	const nonce: Uint8Array<ArrayBuffer> = new Uint8Array(headerStreamNoncePrefixLength + 5);
+	nonce.set(noncePrefix, 0);
+	new DataView(nonce.buffer).setUint32(headerStreamNoncePrefixLength, counter);
+	nonce[headerStreamNoncePrefixLength + 4] = last ? 1 : 0;
+	const parameters: AesGcmParams = {
+		name: "AES-GCM",
+		additionalData,
+		iv: nonce
+	};
+	if (mode === "encrypt") {
+		return new Uint8Array(await crypto.subtle.encrypt(parameters, cryptoKey, data.slice()));
+	}
+	try {
+		return new Uint8Array(await crypto.subtle.decrypt(parameters, cryptoKey, data.slice()));
+	} catch (error) {
+		throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the stream segment #${counter}, the cipher text is corrupted, reordered, or truncated!`, {
+			algorithm: "AES-GCM",
+			cause: error
+		});
+	}
+}
+interface SymmetricCryptorEncryptContext {
+	/**
+	 * Current keys which already resolved, to avoid resolve again.
+	 */
+	cryptoKeys?: readonly SymmetricCryptorService[];
+	/**
+	 * Whether to use the deterministic encryption.
+	 */
+	deterministic?: boolean;
+	/**
+	 * Whether the data is the message, which is able to compress and pad; Data key of the envelope and the stream is not the message.
+	 */
+	message?: boolean;
+}
+interface SymmetricCryptorKeyMaterialDerived {
+	headerKey: SymmetricCryptorHeaderKey;
+	keyMaterial: SymmetricCryptorKeyMaterial;
+}
+interface SymmetricCryptorServiceSource {
+	/**
+	 * Get the service of the current key, which use for the encryption.
+	 */
+	current(): Promise<SymmetricCryptorService>;
+	/**
+	 * Find the service by the key ID, `undefined` when not found.
+	 */
+	find(id: string): Promise<SymmetricCryptorService | undefined>;
+}
+interface SymmetricCryptorServiceOptions {
+	algorithm?: SymmetricCryptorAlgorithm;
+	id?: string;
+	/**
+	 * Key derivation function, default is base on the type of the key when undefined.
+	 */
+	kdf?: SymmetricCryptorKDFResolved;
+	length?: SymmetricCryptorKeyLength;
+}
+class SymmetricCryptorService implements SymmetricCryptorServiceSource {
 	#algorithm: SymmetricCryptorAlgorithm;
-	#cryptoKey: CryptoKey;
-	#saltLength: number;
-	constructor(algorithm: SymmetricCryptorAlgorithm, cryptoKey: CryptoKey) {
+	#id: string | undefined;
+	#kdf: SymmetricCryptorKDFResolved;
+	#key: Uint8Array<ArrayBuffer>;
+	#keyMaterialDeterministic: Promise<SymmetricCryptorKeyMaterialDerived> | undefined = undefined;
+	#keyMaterialUnsalted: Map<string, Promise<SymmetricCryptorKeyMaterial>> = new Map<string, Promise<SymmetricCryptorKeyMaterial>>();
+	#length: number;
+	constructor(algorithm: SymmetricCryptorAlgorithm, id: string | undefined, kdf: SymmetricCryptorKDFResolved, key: Uint8Array<ArrayBuffer>, length: number) {
 		this.#algorithm = algorithm;
-		this.#cryptoKey = cryptoKey;
-		switch (this.#algorithm) {
-			case "AES-CBC":
-			case "AES-CTR":
-				this.#saltLength = 16;
-				break;
-			case "AES-GCM":
-				this.#saltLength = 12;
-				break;
+		this.#id = id;
+		this.#kdf = kdf;
+		this.#key = key;
+		this.#length = length;
+	}
+	get algorithm(): SymmetricCryptorAlgorithm {
+		return this.#algorithm;
+	}
+	get id(): string | undefined {
+		return this.#id;
+	}
+	get kdf(): SymmetricCryptorKDFResolved {
+		return this.#kdf;
+	}
+	get key(): Uint8Array<ArrayBuffer> {
+		return this.#key;
+	}
+	/**
+	 * Length of the derived key, in bytes.
+	 */
+	get length(): number {
+		return this.#length;
+	}
+	#deriveUnsalted(kdf: number, length: number): Promise<SymmetricCryptorKeyMaterial> {
+		const cacheKey: string = (kdf === kdfIDSHA256) ? `${kdf}:${length}` : String(kdf);
+		let keyMaterial: Promise<SymmetricCryptorKeyMaterial> | undefined = this.#keyMaterialUnsalted.get(cacheKey);
+		if (typeof keyMaterial === "undefined") {
+			keyMaterial = (async (): Promise<SymmetricCryptorKeyMaterial> => {
+				return new SymmetricCryptorKeyMaterial((kdf === kdfIDSHA256) ? new Uint8Array(await crypto.subtle.digest("SHA-256", this.#key)).slice(0, length) : this.#key);
+			})();
+			this.#keyMaterialUnsalted.set(cacheKey, keyMaterial);
+		}
+		return keyMaterial;
+	}
+	async #derivePBKDF2(hash: SymmetricCryptorKDFHash, iterations: number, salt: Uint8Array<ArrayBuffer>, length: number): Promise<SymmetricCryptorKeyMaterial> {
+		const baseKey: CryptoKey = await crypto.subtle.importKey("raw", this.#key, { name: "PBKDF2" }, false, ["deriveBits"]);
+		return new SymmetricCryptorKeyMaterial(new Uint8Array(await crypto.subtle.deriveBits({
+			name: "PBKDF2",
+			hash,
+			iterations,
+			salt
+		}, baseKey, length * 8)));
+	}
+	async #deriveCustom(derive: SymmetricCryptorKDFCustomDerive, salt: Uint8Array<ArrayBuffer>, length: number): Promise<SymmetricCryptorKeyMaterial> {
+		return new SymmetricCryptorKeyMaterial(new Uint8Array(await derive(this.#key.slice(), salt.slice(), length)));
+	}
+	/**
+	 * Derive the key material for the encryption, with a new random salt.
+	 * @param {boolean} [deterministic=false] Whether to use a fixed salt (i.e.: all zero), and reuse the key material.
+	 * @returns {Promise<SymmetricCryptorKeyMaterialDerived>}
+	 */
+	async deriveForEncrypt(deterministic: boolean = false): Promise<SymmetricCryptorKeyMaterialDerived> {
+		if (deterministic) {
+			this.#keyMaterialDeterministic ??= this.#deriveForEncrypt(true);
+			return await this.#keyMaterialDeterministic;
 		}
+		return await this.#deriveForEncrypt(false);
 	}
-	#resolveParameters(salt: Uint8Array): AesCbcParams | AesCtrParams | AesGcmParams {
-		switch (this.#algorithm) {
-			case "AES-CBC":
-			case "AES-GCM":
+	async #deriveForEncrypt(deterministic: boolean): Promise<SymmetricCryptorKeyMaterialDerived> {
+		switch (this.#kdf.name) {
+			case "none":
+				return {
+					headerKey: {
+						kdf: kdfIDNone,
+						kdfParameters: new Uint8Array(0)
+					},
+					keyMaterial: await this.#deriveUnsalted(kdfIDNone, this.#length)
+				};
+			case "SHA-256":
 				return {
-					name: this.#algorithm,
-					iv: salt
+					headerKey: {
+						kdf: kdfIDSHA256,
+						kdfParameters: new Uint8Array(0)
+					},
+					keyMaterial: await this.#deriveUnsalted(kdfIDSHA256, this.#length)
 				};
-			case "AES-CTR":
+			case "PBKDF2": {
+				const salt: Uint8Array<ArrayBuffer> = deterministic ? new Uint8Array(this.#kdf.saltLength) : crypto.getRandomValues(new Uint8Array(this.#kdf.saltLength));
+				const parameters: Uint8Array<ArrayBuffer> = new Uint8Array(5);
+				parameters[0] = kdfHashes.indexOf(this.#kdf.hash) + 1;
+				new DataView(parameters.buffer).setUint32(1, this.#kdf.iterations);
 				return {
-					name: this.#algorithm,
-					counter: salt,
-					length: 64
+					headerKey: {
+						kdf: kdfIDPBKDF2,
+						kdfParameters: concatBytes(parameters, salt)
+					},
+					keyMaterial: await this.#derivePBKDF2(this.#kdf.hash, this.#kdf.iterations, salt, this.#length)
 				};
+			}
+			case "custom": {
+				const salt: Uint8Array<ArrayBuffer> = deterministic ? new Uint8Array(this.#kdf.saltLength) : crypto.getRandomValues(new Uint8Array(this.#kdf.saltLength));
+				const id: Uint8Array = new TextEncoder().encode(this.#kdf.id);
+				return {
+					headerKey: {
+						kdf: kdfIDCustom,
+						kdfParameters: concatBytes(Uint8Array.of(id.length), id, salt)
+					},
+					keyMaterial: await this.#deriveCustom(this.#kdf.derive, salt, this.#length)
+				};
+			}
 		}
 	}
-	async decrypt(data: Uint8Array): Promise<Uint8Array> {
-		const salt: Uint8Array = data.slice(0, this.#saltLength);
-		const dataRemain: Uint8Array = data.slice(this.#saltLength);
-		return new Uint8Array(await crypto.subtle.decrypt(this.#resolveParameters(salt), this.#cryptoKey, dataRemain));
-	}
-	async encrypt(data: Uint8Array): Promise<Uint8Array> {
-		const salt: Uint8Array = crypto.getRandomValues(new Uint8Array(this.#saltLength));
-		return Uint8Array.from([...salt, ...new Uint8Array(await crypto.subtle.encrypt(this.#resolveParameters(salt), this.#cryptoKey, data))]);
-	}
-	static async create(input: SymmetricCryptorKeyInput | SymmetricCryptorKeyType): Promise<SymmetricCryptorService> {
-		let algorithm: SymmetricCryptorAlgorithm = "AES-CBC";
-		let key: BufferSource;
-		if (typeof input === "string") {
-			key = new TextEncoder().encode(input);
-		} else if (
-			input instanceof ArrayBuffer ||
-			input instanceof BigUint64Array ||
-			input instanceof DataView ||
-			input instanceof Uint8Array ||
-			input instanceof Uint16Array ||
-			input instanceof Uint32Array
-		) {
+	/**
+	 * Derive the key material for the decryption, base on the key of the cipher text header.
+	 * @param {SymmetricCryptorHeaderKey} headerKey Key of the cipher text header.
+	 * @param {number} [length=32] Length of the derived key, in bytes; Not apply to the key derivation function `none`.
+	 * @returns {Promise<SymmetricCryptorKeyMaterial>}
+	 */
+	async deriveFromHeader(headerKey: SymmetricCryptorHeaderKey, length: number = kdfDerivedLength): Promise<SymmetricCryptorKeyMaterial> {
+		switch (headerKey.kdf) {
+			case kdfIDNone:
+			case kdfIDSHA256:
+				return await this.#deriveUnsalted(headerKey.kdf, length);
+			case kdfIDPBKDF2: {
+				if (headerKey.kdfParameters.length < 5) {
+					throw new SymmetricCryptorFormatError(`Cipher text key derivation function parameters are truncated!`);
+				}
+				const hash: SymmetricCryptorKDFHash | undefined = kdfHashes[headerKey.kdfParameters[0] - 1];
+				if (typeof hash === "undefined") {
+					throw new SymmetricCryptorFormatError(`Cipher text is using an unknown key derivation function hash ID \`${headerKey.kdfParameters[0]}\`!`);
+				}
+				const iterations: number = new DataView(headerKey.kdfParameters.buffer, headerKey.kdfParameters.byteOffset, headerKey.kdfParameters.byteLength).getUint32(1);
+				if (!(iterations >= 1 && iterations <= kdfPBKDF2IterationsMaximum)) {
+					throw new SymmetricCryptorFormatError(`Cipher text key derivation function iterations \`${iterations}\` is not between 1 and ${kdfPBKDF2IterationsMaximum}!`);
+				}
+				try {
+					return await this.#derivePBKDF2(hash, iterations, headerKey.kdfParameters.slice(5), length);
+				} catch (error) {
+					throw new SymmetricCryptorFormatError(`Unable to derive the key with the key derivation function parameters of the cipher text!`, { cause: error });
+				}
+			}
+			case kdfIDCustom: {
+				const idLength: number = headerKey.kdfParameters[0] ?? 0;
+				const id: string = new TextDecoder().decode(headerKey.kdfParameters.slice(1, 1 + idLength));
+				if (!(this.#kdf.name === "custom" && this.#kdf.id === id)) {
+					throw new SymmetricCryptorKeyError(`Cipher text is using the custom key derivation function \`${id}\` which is not provided!`);
+				}
+				return await this.#deriveCustom(this.#kdf.derive, headerKey.kdfParameters.slice(1 + idLength), length);
+			}
+			default:
+				throw new SymmetricCryptorFormatError(`Cipher text is using an unknown key derivation function ID \`${headerKey.kdf}\`!`);
+		}
+	}
+	/**
+	 * Derive the key material for the legacy cipher text, which is headerless and unsalted.
+	 * @returns {Promise<SymmetricCryptorKeyMaterial>}
+	 */
+	async deriveLegacy(): Promise<SymmetricCryptorKeyMaterial> {
+		return await this.#deriveUnsalted((this.#kdf.name === "none") ? kdfIDNone : kdfIDSHA256, this.#length);
+	}
+	current(): Promise<SymmetricCryptorService> {
+		return Promise.resolve(this);
+	}
+	find(id: string): Promise<SymmetricCryptorService | undefined> {
+		return Promise.resolve((this.#id === id) ? this : undefined);
+	}
+	static async create(input: SymmetricCryptorKeyInput | SymmetricCryptorKeyType, legacy: boolean): Promise<SymmetricCryptorServiceSource> {
+		const options: SymmetricCryptorServiceOptions = {};
+		let key: SymmetricCryptorKeyType | SymmetricCryptorKeyProvider;
+		if (isKeyType(input)) {
 			key = input;
 		} else {
 			if (typeof input.algorithm !== "undefined") {
 				if (!algorithms.includes(input.algorithm)) {
 					throw new RangeError(`\`${input.algorithm}\` is not a valid symmetric crypto algorithm! Only accept these values: ${algorithms.join(", ")}`);
 				}
-				algorithm = input.algorithm;
+				options.algorithm = input.algorithm;
+			}
+			if (typeof input.id !== "undefined") {
+				if (!(input.id.length > 0 && new TextEncoder().encode(input.id).length <= 255)) {
+					throw new RangeError(`\`${input.id}\` (parameter \`key.id\`) is not a string which is non empty, and <= 255 bytes!`);
+				}
+				options.id = input.id;
+			}
+			if (typeof input.kdf !== "undefined") {
+				options.kdf = resolveKDF(input.kdf);
+				if (legacy && !(options.kdf.name === "none" || options.kdf.name === "SHA-256")) {
+					throw new SymmetricCryptorKeyError(`Key derivation function \`${options.kdf.name}\` is not supported in the legacy cipher text format!`);
+				}
+			}
+			if (typeof input.length !== "undefined") {
+				if (!keyLengths.includes(input.length)) {
+					throw new RangeError(`\`${input.length}\` (parameter \`key.length\`) is not a valid key length! Only accept these values: ${keyLengths.join(", ")}`);
+				}
+				options.length = input.length;
+			}
+			key = input.key;
+		}
+		if (isKeyProvider(key)) {
+			if (typeof options.id !== "undefined") {
+				throw new SymmetricCryptorKeyError(`Parameter \`key.id\` is not supported with the key provider, which provide the key ID itself!`);
 			}
-			key = (typeof input.key === "string") ? new TextEncoder().encode(input.key) : input.key;
+			return new SymmetricCryptorServiceProvided(options, key, legacy);
 		}
-		const keyFmt: ArrayBuffer = await crypto.subtle.digest("SHA-256", key);
-		return new this(algorithm, await crypto.subtle.importKey("raw", keyFmt, { name: algorithm }, false, ["decrypt", "encrypt"]));
+		return await this.from(options, key, legacy);
+	}
+	static async from(options: SymmetricCryptorServiceOptions, key: SymmetricCryptorKeyType, legacy: boolean): Promise<SymmetricCryptorService> {
+		const keyResolved: SymmetricCryptorKeyResolved = await resolveKey(key);
+		// `CryptoKey` and JSON Web Key are already a crypto key, no need to derive.
+		const kdf: SymmetricCryptorKDFResolved = options.kdf ?? (keyResolved.isCryptoKey ? { name: "none" } : (legacy ? { name: "SHA-256" } : resolveKDF("PBKDF2")));
+		if (kdf.name === "none") {
+			if (!(
+				keyResolved.bytes.length === 16 ||
+				keyResolved.bytes.length === 24 ||
+				keyResolved.bytes.length === 32
+			)) {
+				throw new RangeError(`Key is not 16, 24, or 32 bytes, which is require when the key derivation function is \`none\`!`);
+			}
+			if (typeof options.length !== "undefined" && options.length / 8 !== keyResolved.bytes.length) {
+				throw new RangeError(`Key is not ${options.length / 8} bytes, which is require by the parameter \`key.length\` when the key derivation function is \`none\`!`);
+			}
+		}
+		return new this(options.algorithm ?? keyResolved.algorithm ?? "AES-CBC", options.id, kdf, keyResolved.bytes, (kdf.name === "none") ? keyResolved.bytes.length : (options.length ?? (kdfDerivedLength * 8)) / 8);
+	}
+}
+function isJsonWebKey(key: unknown): key is JsonWebKey {
+	return (typeof key === "object" && key !== null && typeof (key as JsonWebKey).kty === "string");
+}
+function isKeyType(input: SymmetricCryptorKeyInput | SymmetricCryptorKeyType): input is SymmetricCryptorKeyType {
+	return (
+		typeof input === "string" ||
+		input instanceof ArrayBuffer ||
+		input instanceof BigUint64Array ||
+		input instanceof CryptoKey ||
+		input instanceof DataView ||
+		input instanceof Uint8Array ||
+		input instanceof Uint16Array ||
+		input instanceof Uint32Array ||
+		isJsonWebKey(input)
+	);
+}
+function isKeyProvider(key: SymmetricCryptorKeyType | SymmetricCryptorKeyProvider): key is SymmetricCryptorKeyProvider {
+	return (
+		typeof key === "object" &&
+		typeof (key as Partial<SymmetricCryptorKeyProvider>).getCurrentKeyId === "function" &&
+		typeof (key as Partial<SymmetricCryptorKeyProvider>).getKey === "function"
+	);
+}
+class SymmetricCryptorServiceProvided implements SymmetricCryptorServiceSource {
+	#legacy: boolean;
+	#options: SymmetricCryptorServiceOptions;
+	#provider: SymmetricCryptorKeyProvider;
+	#services: Map<string, Promise<SymmetricCryptorService | undefined>> = new Map<string, Promise<SymmetricCryptorService | undefined>>();
+	constructor(options: SymmetricCryptorServiceOptions, provider: SymmetricCryptorKeyProvider, legacy: boolean) {
+		this.#legacy = legacy;
+		this.#options = options;
+		this.#provider = provider;
+	}
+	async current(): Promise<SymmetricCryptorService> {
+		const id: string = await this.#provider.getCurrentKeyId();
+		if (!(typeof id === "string" && id.length > 0 && new TextEncoder().encode(id).length <= 255)) {
+			throw new SymmetricCryptorKeyError(`\`${id}\` (current key ID of the key provider) is not a string which is non empty, and <= 255 bytes!`);
+		}
+		const service: SymmetricCryptorService | undefined = await this.find(id);
+		if (typeof service === "undefined") {
+			throw new SymmetricCryptorKeyError(`Key provider does not have the current key \`${id}\`!`);
+		}
+		return service;
+	}
+	find(id: string): Promise<SymmetricCryptorService | undefined> {
+		let service: Promise<SymmetricCryptorService | undefined> | undefined = this.#services.get(id);
+		if (typeof service === "undefined") {
+			service = (async (): Promise<SymmetricCryptorService | undefined> => {
+				const key: SymmetricCryptorKeyType | undefined = await this.#provider.getKey(id);
+				return ((typeof key === "undefined") ? undefined : await SymmetricCryptorService.from({
+					...this.#options,
+					id
+				}, key, this.#legacy));
+			})();
+			this.#services.set(id, service);
+			// Only cache the exist key, the key may add to the provider later.
+			service.then((value: SymmetricCryptorService | undefined): void => {
+				if (typeof value === "undefined") {
+					this.#services.delete(id);
+				}
+			}, (): void => {
+				this.#services.delete(id);
+			});
+		}
+		return service;
+	}
+}
+interface SymmetricCryptorKeyResolved {
+	/**
+	 * Algorithm of the key, only available for the `CryptoKey` and the JSON Web Key.
+	 */
+	algorithm: SymmetricCryptorAlgorithm | undefined;
+	bytes: Uint8Array<ArrayBuffer>;
+	/**
+	 * Whether the key is a `CryptoKey` or a JSON Web Key.
+	 */
+	isCryptoKey: boolean;
+}
+async function resolveKey(key: SymmetricCryptorKeyType): Promise<SymmetricCryptorKeyResolved> {
+	if (typeof key === "string") {
+		return {
+			algorithm: undefined,
+			bytes: new TextEncoder().encode(key),
+			isCryptoKey: false
+		};
+	}
+	if (key instanceof ArrayBuffer) {
+		return {
+			algorithm: undefined,
+			bytes: new Uint8Array(key).slice(),
+			isCryptoKey: false
+		};
+	}
+	if (key instanceof CryptoKey) {
+		if (!(key.type === "secret" && key.extractable)) {
+			throw new TypeError(`CryptoKey is not a secret key which is extractable!`);
+		}
+		return {
+			algorithm: algorithmsRegistry.has(key.algorithm.name as SymmetricCryptorAlgorithm) ? key.algorithm.name as SymmetricCryptorAlgorithm : undefined,
+			bytes: new Uint8Array(await crypto.subtle.exportKey("raw", key)),
+			isCryptoKey: true
+		};
+	}
+	if (isJsonWebKey(key)) {
+		if (!(key.kty === "oct" && typeof key.k === "string")) {
+			throw new TypeError(`JSON Web Key is not an octet sequence key!`);
+		}
+		const bytes: Uint8Array<ArrayBuffer> = Uint8Array.from(Buffer.from(key.k, "base64url"));
+		return {
+			algorithm: (typeof key.alg === "undefined") ? undefined : resolveAlgorithmFromJWK(key.alg, bytes.length),
+			bytes,
+			isCryptoKey: true
+		};
+	}
+	return {
+		algorithm: undefined,
+		bytes: new Uint8Array(key.buffer, key.byteOffset, key.byteLength).slice(),
+		isCryptoKey: false
+	};
+}
+function resolveJWEEncryptOptions(service: SymmetricCryptorService): JWEEncryptOptions {
+	switch (service.kdf.name) {
+		case "none":
+			return { keyId: service.id };
+		case "PBKDF2":
+			return {
+				keyId: service.id,
+				pbes2: {
+					hash: service.kdf.hash,
+					iterations: service.kdf.iterations,
+					saltLength: service.kdf.saltLength
+				}
+			};
+		default:
+			throw new SymmetricCryptorKeyError(`Cipher text format \`jwe\` is require the key derivation function \`none\` or \`PBKDF2\`!`);
+	}
+}
+function assertFernetService(service: SymmetricCryptorService): void {
+	if (service.kdf.name !== "none") {
+		throw new SymmetricCryptorKeyError(`Token format \`fernet\` is require the key derivation function \`none\`!`);
+	}
+}
+function resolveTokenFormat(format: SymmetricCryptorTokenFormat): SymmetricCryptorTokenFormat {
+	if (!tokenFormats.includes(format)) {
+		throw new RangeError(`\`${format}\` is not a valid token format! Only accept these values: ${tokenFormats.join(", ")}`);
+	}
+	return format;
+}
+function resolveOpenSSLOptions(service: SymmetricCryptorService): OpenSSLOptions {
+	if (!(service.algorithm === "AES-CBC" || service.algorithm === "AES-CTR")) {
+		throw new SymmetricCryptorConfigError(`Cipher text format \`openssl\` is not support the algorithm \`${service.algorithm}\`!`);
+	}
+	if (service.kdf.name !== "PBKDF2") {
+		throw new SymmetricCryptorKeyError(`Cipher text format \`openssl\` is require the key derivation function \`PBKDF2\`!`);
+	}
+	return {
+		algorithm: service.algorithm,
+		hash: service.kdf.hash,
+		iterations: service.kdf.iterations,
+		keyLength: service.length
+	};
+}
+function exportKeyBytes(bytes: Uint8Array<ArrayBuffer>, algorithm: SymmetricCryptorAlgorithm, format: SymmetricCryptorKeyFormat): JsonWebKey | string | Uint8Array {
+	switch (format) {
+		case "base64":
+		case "base64url":
+			return Buffer.from(bytes).toString(format);
+		case "jwk": {
+			const jwkAlgorithm: string | undefined = keyLengths.includes(bytes.length * 8 as SymmetricCryptorKeyLength) ? resolveAlgorithmEntry(algorithm).jwk(bytes.length) : undefined;
+			return {
+				...((typeof jwkAlgorithm === "undefined") ? {} : { alg: jwkAlgorithm }),
+				ext: true,
+				k: Buffer.from(bytes).toString("base64url"),
+				key_ops: [...resolveAlgorithmEntry(algorithm).usages],
+				kty: "oct"
+			};
+		}
+		case "raw":
+			return bytes;
+		default:
+			throw new RangeError(`\`${format}\` is not a valid key format! Only accept these values: ${keyFormats.join(", ")}`);
 	}
 }
 function resolveCipherTextCoder(coder: SymmetricCryptorCipherTextCoderDefault | SymmetricCryptorCipherTextCoderOptions = "base64"): SymmetricCryptorCipherTextCoderOptions {
@@ -156,13 +1191,23 @@ export class SymmetricCryptorBasic {
 	get [Symbol.toStringTag](): string {
 		return "SymmetricCryptorBasic";
 	}
+	#additionalData: Uint8Array<ArrayBuffer> | undefined;
 	#cipherTextDecoder: SymmetricCryptorCipherTextDecoder;
 	#cipherTextEncoder: SymmetricCryptorCipherTextEncoder;
-	#cryptoKeys: SymmetricCryptorService[] | undefined;
+	#cipherTextFormat: SymmetricCryptorCipherTextFormat;
+	#compression: SymmetricCryptorCompression | undefined;
+	#cryptoKeys: SymmetricCryptorServiceSource[] | undefined;
+	#cryptoKeysRetired: SymmetricCryptorServiceSource[] | undefined;
+	#envelope: boolean;
 	#keyIsSingle: boolean;
 	#keyOnSingleRepeats: number = 1;
+	#legacy: boolean;
+	#mac: boolean;
+	#padding: SymmetricCryptorPadding | undefined;
+	#threshold: number | undefined;
 	#keysToCryptoKeysFail: Error | undefined = undefined;
-	#keysToCryptoKeysPromise: Promise<SymmetricCryptorService[]> | undefined = undefined;
+	#keysToCryptoKeysPromise: Promise<SymmetricCryptorServiceSource[]> | undefined = undefined;
+	#keysToCryptoKeysRetiredPromise: Promise<SymmetricCryptorServiceSource[]> | undefined = undefined;
 	/**
 	 * Initialize the symmetric cryptor.
 	 * @param {SymmetricCryptorKeyInput | SymmetricCryptorKeyType} key Key of the symmetric cryptor.
@@ -176,26 +1221,76 @@ export class SymmetricCryptorBasic {
 	 */
 	constructor(keys: readonly (SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[], options?: Omit<SymmetricCryptorOptions, "times">);
 	constructor(keys: SymmetricCryptorKeyInput | SymmetricCryptorKeyType | readonly (SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[], options: SymmetricCryptorOptions = {}) {
+		this.#additionalData = resolveAdditionalData(options.additionalData);
 		const cipherTextCoder: SymmetricCryptorCipherTextCoderOptions = resolveCipherTextCoder(options.cipherTextCoder);
 		this.#cipherTextDecoder = cipherTextCoder.decoder;
 		this.#cipherTextEncoder = cipherTextCoder.encoder;
+		this.#legacy = options.legacy ?? false;
+		this.#mac = options.mac ?? !this.#legacy;
+		if (this.#legacy && this.#mac) {
+			throw new SymmetricCryptorConfigError(`Parameter \`options.mac\` is not supported in the legacy cipher text format!`);
+		}
+		this.#envelope = options.envelope ?? false;
+		if (this.#legacy && this.#envelope) {
+			throw new SymmetricCryptorConfigError(`Parameter \`options.envelope\` is not supported in the legacy cipher text format!`);
+		}
+		const retiredKeys: readonly (SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[] = options.retiredKeys ?? [];
+		this.#keysToCryptoKeysRetiredPromise = Promise.resolve().then((): Promise<SymmetricCryptorServiceSource[]> => {
+			return Promise.all(retiredKeys.map((key: SymmetricCryptorKeyInput | SymmetricCryptorKeyType): Promise<SymmetricCryptorServiceSource> => {
+				return SymmetricCryptorService.create(key, this.#legacy);
+			}));
+		});
 		if (Array.isArray(keys)) {
 			if (keys.length === 0) {
 				throw new ReferenceError(`Parameter \`keys\` is not defined!`);
 			}
 			this.#keyIsSingle = false;
-			this.#keysToCryptoKeysPromise = Promise.all(keys.map((key: SymmetricCryptorKeyInput | SymmetricCryptorKeyType): Promise<SymmetricCryptorService> => {
-				return SymmetricCryptorService.create(key);
-			}));
+			this.#keysToCryptoKeysPromise = Promise.resolve().then((): Promise<SymmetricCryptorServiceSource[]> => {
+				return Promise.all(keys.map((key: SymmetricCryptorKeyInput | SymmetricCryptorKeyType): Promise<SymmetricCryptorServiceSource> => {
+					return SymmetricCryptorService.create(key, this.#legacy);
+				}));
+			});
 		} else {
 			this.#keyIsSingle = true;
 			if (typeof options.times !== "undefined") {
-				if (!(Number.isSafeInteger(options.times) && options.times >= 1)) {
-					throw new TypeError(`\`${options.times}\` (parameter \`options.times\`) is not a number which is integer, safe, and >= 1!`);
+				if (!(Number.isSafeInteger(options.times) && options.times >= 1 && options.times <= headerLayersCountMaximum)) {
+					throw new TypeError(`\`${options.times}\` (parameter \`options.times\`) is not a number which is integer, safe, and between 1 and ${headerLayersCountMaximum}!`);
 				}
 				this.#keyOnSingleRepeats = options.times;
 			}
-			this.#keysToCryptoKeysPromise = Promise.all([SymmetricCryptorService.create(keys as SymmetricCryptorKeyInput | SymmetricCryptorKeyType)]);
+			this.#keysToCryptoKeysPromise = Promise.resolve().then(async (): Promise<SymmetricCryptorServiceSource[]> => {
+				return [await SymmetricCryptorService.create(keys as SymmetricCryptorKeyInput | SymmetricCryptorKeyType, this.#legacy)];
+			});
+		}
+		this.#cipherTextFormat = options.cipherTextFormat ?? "native";
+		if (!cipherTextFormats.includes(this.#cipherTextFormat)) {
+			throw new RangeError(`\`${this.#cipherTextFormat}\` is not a valid cipher text format! Only accept these values: ${cipherTextFormats.join(", ")}`);
+		}
+		if (this.#cipherTextFormat !== "native" && (this.#legacy || this.#envelope || !this.#keyIsSingle || this.#keyOnSingleRepeats > 1)) {
+			throw new SymmetricCryptorConfigError(`Cipher text format \`${this.#cipherTextFormat}\` is only support the single key with 1 time, and not support the envelope encryption and the legacy cipher text format!`);
+		}
+		this.#compression = resolveCompression(options.compression);
+		if (typeof this.#compression !== "undefined" && (this.#cipherTextFormat !== "native" || this.#envelope || this.#legacy)) {
+			throw new SymmetricCryptorConfigError(`Parameter \`options.compression\` is not supported with the envelope encryption, the cipher text formats other than \`native\`, and the legacy cipher text format!`);
+		}
+		this.#padding = resolvePadding(options.padding);
+		if (typeof this.#padding !== "undefined" && (this.#cipherTextFormat !== "native" || this.#envelope || this.#legacy)) {
+			throw new SymmetricCryptorConfigError(`Parameter \`options.padding\` is not supported with the envelope encryption, the cipher text formats other than \`native\`, and the legacy cipher text format!`);
+		}
+		this.#threshold = options.threshold;
+		if (typeof this.#threshold !== "undefined") {
+			if (!Array.isArray(keys)) {
+				throw new SymmetricCryptorConfigError(`Parameter \`options.threshold\` is only support the multiple keys!`);
+			}
+			if (keys.length > 255) {
+				throw new RangeError(`Parameter \`keys\` is not an array which has <= 255 keys, which is require by the parameter \`options.threshold\`!`);
+			}
+			if (!(Number.isSafeInteger(this.#threshold) && this.#threshold >= 1 && this.#threshold <= keys.length)) {
+				throw new RangeError(`\`${this.#threshold}\` (parameter \`options.threshold\`) is not a number which is integer, safe, and between 1 and ${keys.length}!`);
+			}
+			if (this.#legacy || this.#envelope || typeof this.#compression !== "undefined" || typeof this.#padding !== "undefined") {
+				throw new SymmetricCryptorConfigError(`Parameter \`options.threshold\` is not supported with the compression, the envelope encryption, the padding, and the legacy cipher text format!`);
+			}
 		}
 	}
 	/**
@@ -209,7 +1304,14 @@ export class SymmetricCryptorBasic {
 	async ready(): Promise<void> {
 		if (typeof this.#keysToCryptoKeysPromise !== "undefined") {
 			try {
-				const cryptoKeys: readonly SymmetricCryptorService[] = await this.#keysToCryptoKeysPromise;
+				const [
+					cryptoKeys,
+					cryptoKeysRetired
+				]: readonly [readonly SymmetricCryptorServiceSource[], SymmetricCryptorServiceSource[]] = await Promise.all([
+					this.#keysToCryptoKeysPromise,
+					this.#keysToCryptoKeysRetiredPromise ?? []
+				]);
+				this.#cryptoKeysRetired = cryptoKeysRetired;
 				this.#cryptoKeys = [];
 				if (this.#keyIsSingle) {
 					for (let index: number = 0; index < this.#keyOnSingleRepeats; index += 1) {
@@ -219,15 +1321,16 @@ export class SymmetricCryptorBasic {
 					this.#cryptoKeys.push(...cryptoKeys);
 				}
 			} catch (error) {
-				this.#keysToCryptoKeysFail = error as Error;
+				this.#keysToCryptoKeysFail = (error instanceof SymmetricCryptorError) ? error : new SymmetricCryptorKeyError((error instanceof Error) ? error.message : String(error), { cause: error });
 			}
 			this.#keysToCryptoKeysPromise = undefined;
+			this.#keysToCryptoKeysRetiredPromise = undefined;
 		}
 		if (typeof this.#keysToCryptoKeysFail !== "undefined") {
 			throw this.#keysToCryptoKeysFail;
 		}
 	}
-	async #getCryptoKeys(): Promise<readonly SymmetricCryptorService[]> {
+	async #getCryptoKeysSource(): Promise<readonly SymmetricCryptorServiceSource[]> {
 		await this.ready();
 		if (
 			typeof this.#cryptoKeys === "undefined" ||
@@ -237,62 +1340,950 @@ export class SymmetricCryptorBasic {
 		}
 		return this.#cryptoKeys;
 	}
-	async #decrypt(data: Uint8Array): Promise<Uint8Array> {
-		const cryptoKeys: readonly SymmetricCryptorService[] = await this.#getCryptoKeys();
+	async #getCryptoKeys(): Promise<readonly SymmetricCryptorService[]> {
+		return await Promise.all((await this.#getCryptoKeysSource()).map((source: SymmetricCryptorServiceSource): Promise<SymmetricCryptorService> => {
+			return source.current();
+		}));
+	}
+	#assertInteropAdditionalData(options: SymmetricCryptorCryptOptions): void {
+		if (typeof (resolveAdditionalData(options.additionalData) ?? this.#additionalData) !== "undefined") {
+			throw new SymmetricCryptorConfigError(`Additional authenticated data is not supported in the cipher text formats \`jwe\` and \`openssl\`, and the token format \`fernet\`!`);
+		}
+	}
+	/**
+	 * Resolve the services to decrypt the interoperable cipher text, by the key ID if any, otherwise the current key and then the retired keys.
+	 * @param {string | undefined} keyId ID of the key.
+	 * @returns {Promise<readonly SymmetricCryptorService[]>}
+	 */
+	async #resolveInteropServices(keyId: string | undefined): Promise<readonly SymmetricCryptorService[]> {
+		const sources: readonly SymmetricCryptorServiceSource[] = [(await this.#getCryptoKeysSource())[0], ...(this.#cryptoKeysRetired ?? [])];
+		if (typeof keyId !== "undefined") {
+			for (const source of sources) {
+				const service: SymmetricCryptorService | undefined = await source.find(keyId);
+				if (typeof service !== "undefined") {
+					return [service];
+				}
+			}
+			throw new SymmetricCryptorKeyError(`Cipher text is require the key \`${keyId}\` which is not provided!`);
+		}
+		return await Promise.all(sources.map((source: SymmetricCryptorServiceSource): Promise<SymmetricCryptorService> => {
+			return source.current();
+		}));
+	}
+	async #decryptInterop<T = Uint8Array>(services: readonly SymmetricCryptorService[], decrypt: (service: SymmetricCryptorService) => Promise<T>): Promise<T> {
+		let errorLast: unknown = undefined;
+		for (const service of services) {
+			try {
+				return await decrypt(service);
+			} catch (error) {
+				errorLast = error;
+			}
+		}
+		throw errorLast;
+	}
+	async #decryptEnvelope(data: Uint8Array, options: SymmetricCryptorCryptOptions): Promise<Uint8Array> {
+		const {
+			body,
+			header
+		} = decodeHeaderEnvelope(data);
+		const cryptoKey: CryptoKey = await crypto.subtle.importKey("raw", new Uint8Array(await this.#decrypt(header.wrappedKey, options)), { name: "AES-GCM" }, false, ["decrypt"]);
+		try {
+			return new Uint8Array(await crypto.subtle.decrypt({
+				name: "AES-GCM",
+				additionalData: resolveEnvelopeAdditionalData(resolveAdditionalData(options.additionalData) ?? this.#additionalData),
+				iv: body.slice(0, envelopeNonceLength)
+			}, cryptoKey, body.slice(envelopeNonceLength)));
+		} catch (error) {
+			throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the cipher text, the key or the additional authenticated data is not match, or the cipher text is corrupted!`, {
+				algorithm: "AES-GCM",
+				cause: error
+			});
+		}
+	}
+	/**
+	 * Bind the token context to the additional authenticated data, the native token is not decryptable as the cipher text and vice versa.
+	 */
+	#resolveTokenOptions(options: SymmetricCryptorCryptOptions): SymmetricCryptorCryptOptions {
+		if (this.#cipherTextFormat !== "native") {
+			throw new SymmetricCryptorConfigError(`Token format \`native\` is require the cipher text format \`native\`!`);
+		}
+		return {
+			...options,
+			additionalData: resolveTokenAdditionalData(resolveAdditionalData(options.additionalData) ?? this.#additionalData)
+		};
+	}
+	async #decryptHeader(body: Uint8Array, header: SymmetricCryptorHeader, headerRaw: Uint8Array, trials: readonly (readonly SymmetricCryptorService[])[], additionalData: Uint8Array<ArrayBuffer> | undefined): Promise<Uint8Array> {
+		// Header is not trustworthy before the authentication, the flags of the layer are able to downgrade to unauthenticated to forge the data.
+		if (this.#mac) {
+			for (let index: number = 0; index < header.layers.length; index += 1) {
+				if (!isHeaderLayerAuthenticated(header.layers[index], index)) {
+					throw new SymmetricCryptorAuthenticationError(`Cipher text layer #${index} is not authenticated, which is not accept when the MAC is enable!`, {
+						algorithm: resolveAlgorithmFromID(header.layers[index].algorithm, index),
+						layer: index
+					});
+				}
+			}
+		}
+		const headerKeysLength: Uint8Array | undefined = header.extensions.get(headerExtensionKeysLength);
+		const headerAdditionalData: Uint8Array<ArrayBuffer> = concatBytes(headerRaw, additionalData ?? new Uint8Array(0));
+		let errorLast: unknown = undefined;
+		for (const trial of trials) {
+			try {
+				const keyMaterials: readonly SymmetricCryptorKeyMaterial[] = await Promise.all(header.keys.map((headerKey: SymmetricCryptorHeaderKey, index: number): Promise<SymmetricCryptorKeyMaterial> => {
+					return trial[index].deriveFromHeader(headerKey, headerKeysLength?.[index]);
+				}));
+				let bin: Uint8Array = body;
+				for (let index: number = header.layers.length - 1; index >= 0; index -= 1) {
+					const layer: SymmetricCryptorHeaderLayer = header.layers[index];
+					bin = await keyMaterials[layer.key].decrypt(bin, resolveAlgorithmFromID(layer.algorithm, index), headerAdditionalData, layer.flags, index);
+				}
+				if (header.extensions.has(headerExtensionPadding)) {
+					bin = unpadData(bin);
+				}
+				if (header.extensions.has(headerExtensionCompression)) {
+					bin = await decompressData(this.#compression, header.extensions.get(headerExtensionCompression)!, bin);
+				}
+				return bin;
+			} catch (error) {
+				errorLast = error;
+			}
+		}
+		throw errorLast;
+	}
+	/**
+	 * Resolve the services to unwrap the share of the threshold cipher text, by the key ID if any, otherwise all of the current keys and the retired keys.
+	 * @param {string | undefined} keyId ID of the key.
+	 * @returns {Promise<readonly SymmetricCryptorService[]>}
+	 */
+	async #resolveThresholdServices(keyId: string | undefined): Promise<readonly SymmetricCryptorService[]> {
+		const sources: readonly SymmetricCryptorServiceSource[] = [...await this.#getCryptoKeysSource(), ...(this.#cryptoKeysRetired ?? [])];
+		if (typeof keyId !== "undefined") {
+			for (const source of sources) {
+				const service: SymmetricCryptorService | undefined = await source.find(keyId);
+				if (typeof service !== "undefined") {
+					return [service];
+				}
+			}
+			return [];
+		}
+		return await Promise.all(sources.map((source: SymmetricCryptorServiceSource): Promise<SymmetricCryptorService> => {
+			return source.current();
+		}));
+	}
+	async #decryptThreshold(data: Uint8Array, options: SymmetricCryptorCryptOptions): Promise<Uint8Array> {
+		const {
+			body,
+			header,
+			headerRaw
+		} = decodeHeaderThreshold(data);
+		const additionalData: Uint8Array<ArrayBuffer> | undefined = resolveAdditionalData(options.additionalData) ?? this.#additionalData;
+		const shares: ShamirShare[] = [];
+		let errorLast: unknown = undefined;
+		for (const share of header.shares) {
+			if (shares.length >= header.threshold) {
+				break;
+			}
+			try {
+				const shareDecoded: SymmetricCryptorHeaderDecoded = decodeHeader(share.wrappedShare);
+				if (shareDecoded.header.keys.length !== 1) {
+					throw new SymmetricCryptorFormatError(`Cipher text share is not wrapped by 1 key!`);
+				}
+				const services: readonly SymmetricCryptorService[] = await this.#resolveThresholdServices(shareDecoded.header.extensions.has(headerExtensionKeysID) ? decodeHeaderStrings(shareDecoded.header.extensions.get(headerExtensionKeysID)!)[0] : undefined);
+				if (services.length === 0) {
+					continue;
+				}
+				shares.push({
+					x: share.x,
+					y: new Uint8Array(await this.#decryptHeader(shareDecoded.body, shareDecoded.header, shareDecoded.headerRaw, services.map((service: SymmetricCryptorService): readonly SymmetricCryptorService[] => {
+						return [service];
+					}), additionalData))
+				});
+			} catch (error) {
+				errorLast = error;
+			}
+		}
+		if (shares.length < header.threshold) {
+			// Key which is found but unable to unwrap the share is more informative than the missing keys.
+			if (typeof errorLast !== "undefined") {
+				throw errorLast;
+			}
+			throw new SymmetricCryptorKeyError(`Cipher text is require ${header.threshold} of the ${header.shares.length} custodian keys, but only ${shares.length} of them are provided!`);
+		}
+		// Share indexes are not authenticated before the combination, the tampered indexes (e.g.: duplicate, zero) are malformed.
+		let secret: Uint8Array<ArrayBuffer>;
+		try {
+			secret = combineShares(shares);
+		} catch (error) {
+			throw new SymmetricCryptorFormatError(`Cipher text shares are malformed!`, { cause: error });
+		}
+		const cryptoKey: CryptoKey = await crypto.subtle.importKey("raw", secret, { name: "AES-GCM" }, false, ["decrypt"]);
+		try {
+			return new Uint8Array(await crypto.subtle.decrypt({
+				name: "AES-GCM",
+				additionalData: concatBytes(headerRaw, additionalData ?? new Uint8Array(0)),
+				iv: body.slice(0, envelopeNonceLength)
+			}, cryptoKey, body.slice(envelopeNonceLength)));
+		} catch (error) {
+			throw new SymmetricCryptorAuthenticationError(`Unable to decrypt the cipher text, the additional authenticated data is not match, or the cipher text is corrupted!`, {
+				algorithm: "AES-GCM",
+				cause: error
+			});
+		}
+	}
+	async #decrypt(data: Uint8Array, options: SymmetricCryptorCryptOptions): Promise<Uint8Array> {
+		// The current keys are resolve lazily, the key provider is not require to have the current key when the cipher text has the key ID.
+		const cryptoKeysSource: readonly SymmetricCryptorServiceSource[] = await this.#getCryptoKeysSource();
+		// Encryption never result the empty cipher text except the legacy format, the empty input is able to substitute for any cipher text and bypass the authentication.
 		if (data.length === 0) {
+			if (!this.#legacy || typeof (resolveAdditionalData(options.additionalData) ?? this.#additionalData) !== "undefined") {
+				throw new SymmetricCryptorFormatError(`Cipher text is empty!`);
+			}
 			return data;
 		}
+		const format: CipherTextFormatDetected | undefined = this.#legacy ? undefined : detectCipherTextFormat(data);
+		switch (format) {
+			case "openssl":
+				this.#assertInteropAdditionalData(options);
+				return await this.#decryptInterop(await this.#resolveInteropServices(undefined), (service: SymmetricCryptorService): Promise<Uint8Array> => {
+					return decryptOpenSSL(service.key, data, resolveOpenSSLOptions(service));
+				});
+			case "jwe": {
+				this.#assertInteropAdditionalData(options);
+				const jwe: JWEDecoded = decodeJWE(new TextDecoder().decode(data));
+				return await this.#decryptInterop(await this.#resolveInteropServices(jwe.header.kid), (service: SymmetricCryptorService): Promise<Uint8Array> => {
+					return decryptJWE(service.key, jwe);
+				});
+			}
+			case "stream":
+				return new Uint8Array(await new Response(ReadableStream.from([data]).pipeThrough(this.decryptStream(options))).arrayBuffer());
+			case "envelope":
+				return await this.#decryptEnvelope(data, options);
+			case "threshold":
+				return await this.#decryptThreshold(data, options);
+		}
+		const additionalData: Uint8Array<ArrayBuffer> | undefined = resolveAdditionalData(options.additionalData) ?? this.#additionalData;
+		if (format === "native") {
+			const {
+				body,
+				header,
+				headerRaw
+			} = decodeHeader(data);
+			const sources: readonly SymmetricCryptorServiceSource[] = this.#keyIsSingle ? [cryptoKeysSource[0]] : cryptoKeysSource;
+			const sourcesRetired: readonly SymmetricCryptorServiceSource[] = this.#cryptoKeysRetired ?? [];
+			const headerKeysID: readonly (string | undefined)[] = header.extensions.has(headerExtensionKeysID) ? decodeHeaderStrings(header.extensions.get(headerExtensionKeysID)!) : [];
+			const candidates: readonly (readonly SymmetricCryptorService[])[] = await Promise.all(header.keys.map(async (_headerKey: SymmetricCryptorHeaderKey, index: number): Promise<readonly SymmetricCryptorService[]> => {
+				const id: string | undefined = headerKeysID[index];
+				if (typeof id !== "undefined") {
+					for (const source of [...sources, ...sourcesRetired]) {
+						const service: SymmetricCryptorService | undefined = await source.find(id);
+						if (typeof service !== "undefined") {
+							return [service];
+						}
+					}
+					throw new SymmetricCryptorKeyError(`Cipher text is require the key \`${id}\` which is not provided!`);
+				}
+				if (header.keys.length === 1) {
+					return await Promise.all([sources[0], ...sourcesRetired].map((source: SymmetricCryptorServiceSource): Promise<SymmetricCryptorService> => {
+						return source.current();
+					}));
+				}
+				if (header.keys.length !== sources.length) {
+					throw new SymmetricCryptorKeyError(`Cipher text is require ${header.keys.length} keys, but the symmetric cryptor has ${sources.length} keys!`);
+				}
+				return [await sources[index].current()];
+			}));
+			const trials: readonly (readonly SymmetricCryptorService[])[] = (candidates.length === 1) ? candidates[0].map((service: SymmetricCryptorService): readonly SymmetricCryptorService[] => {
+				return [service];
+			}) : [candidates.map((candidate: readonly SymmetricCryptorService[]): SymmetricCryptorService => {
+				return candidate[0];
+			})];
+			return await this.#decryptHeader(body, header, headerRaw, trials, additionalData);
+		}
+		if (!this.#legacy) {
+			throw new SymmetricCryptorFormatError(`Cipher text does not have a header! Legacy cipher text is only able to decrypt with the option \`legacy\`.`);
+		}
+		const cryptoKeys: readonly SymmetricCryptorService[] = await this.#getCryptoKeys();
 		let bin: Uint8Array = new Uint8Array(data);
-		for (const cryptoKey of cryptoKeys.toReversed()) {
-			bin = await cryptoKey.decrypt(bin);
+		for (let index: number = cryptoKeys.length - 1; index >= 0; index -= 1) {
+			const cryptoKey: SymmetricCryptorService = cryptoKeys[index];
+			bin = await (await cryptoKey.deriveLegacy()).decrypt(bin, cryptoKey.algorithm, additionalData, undefined, index);
 		}
 		return bin;
 	}
 	/**
 	 * Decrypt the data.
 	 * @param {string} data Data that need to decrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
 	 * @returns {Promise<string>} The decrypted data.
 	 */
-	async decrypt(data: string): Promise<string>;
+	async decrypt(data: string, options?: SymmetricCryptorCryptOptions): Promise<string>;
 	/**
 	 * Decrypt the data.
 	 * @param {Uint8Array} data Data that need to decrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
 	 * @returns {Promise<Uint8Array>} The decrypted data.
 	 */
-	async decrypt(data: Uint8Array): Promise<Uint8Array>;
-	async decrypt(data: string | Uint8Array): Promise<string | Uint8Array> {
+	async decrypt(data: Uint8Array, options?: SymmetricCryptorCryptOptions): Promise<Uint8Array>;
+	async decrypt(data: string | Uint8Array, options: SymmetricCryptorCryptOptions = {}): Promise<string | Uint8Array> {
 		if (typeof data === "string") {
-			const cipherTextDecoded: Uint8Array = await this.#cipherTextDecoder(data);
-			return new TextDecoder().decode(await this.#decrypt(cipherTextDecoded));
+			const cipherTextDecoded: Uint8Array = await this.#decodeCipherText(data);
+			return new TextDecoder().decode(await this.#decrypt(cipherTextDecoded, options));
 		}
-		return await this.#decrypt(data);
+		return await this.#decrypt(data, options);
 	}
-	async #encrypt(data: Uint8Array): Promise<Uint8Array> {
-		const cryptoKeys: readonly SymmetricCryptorService[] = await this.#getCryptoKeys();
+	async #encrypt(data: Uint8Array, options: SymmetricCryptorCryptOptions, context: SymmetricCryptorEncryptContext = {}): Promise<Uint8Array> {
+		const cryptoKeys: readonly SymmetricCryptorService[] = context.cryptoKeys ?? await this.#getCryptoKeys();
+		const deterministic: boolean = context.deterministic ?? false;
+		const additionalData: Uint8Array<ArrayBuffer> | undefined = resolveAdditionalData(options.additionalData) ?? this.#additionalData;
+		if (deterministic && this.#legacy) {
+			throw new SymmetricCryptorConfigError(`Deterministic encryption is not supported in the legacy cipher text format!`);
+		}
+		if (
+			typeof additionalData !== "undefined" &&
+			!(deterministic || this.#mac || cryptoKeys.some((cryptoKey: SymmetricCryptorService): boolean => {
+				return resolveAlgorithmEntry(cryptoKey.algorithm).aead;
+			}))
+		) {
+			throw new SymmetricCryptorConfigError(`Additional authenticated data is require at least 1 layer of the AEAD algorithm (i.e.: AES-GCM, ChaCha20-Poly1305, XChaCha20-Poly1305) or MAC!`);
+		}
+		if ((context.message ?? false) && cryptoKeys.some((cryptoKey: SymmetricCryptorService): boolean => {
+			return (cryptoKey.algorithm === "AES-KW");
+		})) {
+			throw new SymmetricCryptorConfigError(`Algorithm \`AES-KW\` is only able to wrap the data key, which require the envelope encryption, the threshold encryption, or the stream!`);
+		}
+		if (this.#legacy) {
+			let bin: Uint8Array = new Uint8Array(data);
+			for (const cryptoKey of cryptoKeys) {
+				bin = await (await cryptoKey.deriveLegacy()).encrypt(new Uint8Array(bin), cryptoKey.algorithm, additionalData);
+			}
+			return bin;
+		}
+		const keyMaterialsDerived: readonly SymmetricCryptorKeyMaterialDerived[] = await Promise.all((this.#keyIsSingle ? [cryptoKeys[0]] : cryptoKeys).map((cryptoKey: SymmetricCryptorService): Promise<SymmetricCryptorKeyMaterialDerived> => {
+			return cryptoKey.deriveForEncrypt(deterministic);
+		}));
+		const headerLayers: SymmetricCryptorHeaderLayer[] = cryptoKeys.map((cryptoKey: SymmetricCryptorService, index: number): SymmetricCryptorHeaderLayer => {
+			const algorithmEntry: SymmetricCryptorAlgorithmEntry = resolveAlgorithmEntry(cryptoKey.algorithm);
+			return {
+				algorithm: algorithmEntry.id,
+				// Synthetic IV is not able to authenticate the algorithm which does not have the nonce (i.e.: AES-KW), which is already deterministic.
+				flags: deterministic ? ((algorithmEntry.nonceLength > 0) ? headerLayerFlagSIV : headerLayerFlagMAC) : ((this.#mac && !algorithmEntry.aead) ? headerLayerFlagMAC : 0),
+				key: this.#keyIsSingle ? 0 : index
+			};
+		});
+		const headerExtensions: Map<number, Uint8Array> = new Map<number, Uint8Array>();
+		if ((context.message ?? false) && !deterministic && typeof this.#compression !== "undefined" && (options.compression ?? true)) {
+			const compressed: { data: Uint8Array; header: Uint8Array; } = await compressData(this.#compression, data);
+			if (compressed.data.length < data.length) {
+				data = compressed.data;
+				headerExtensions.set(headerExtensionCompression, compressed.header);
+			}
+		}
+		if ((context.message ?? false) && typeof this.#padding !== "undefined") {
+			const padded: { data: Uint8Array; header: Uint8Array; } = padData(this.#padding, data);
+			data = padded.data;
+			headerExtensions.set(headerExtensionPadding, padded.header);
+		}
+		const headerKeysID: readonly (string | undefined)[] = (this.#keyIsSingle ? [cryptoKeys[0]] : cryptoKeys).map((cryptoKey: SymmetricCryptorService): string | undefined => {
+			return cryptoKey.id;
+		});
+		if (headerKeysID.some((id: string | undefined): boolean => {
+			return (typeof id !== "undefined");
+		})) {
+			headerExtensions.set(headerExtensionKeysID, encodeHeaderStrings(headerKeysID));
+		}
+		const headerKeysLength: readonly number[] = keyMaterialsDerived.map(({ keyMaterial }: SymmetricCryptorKeyMaterialDerived): number => {
+			return keyMaterial.length;
+		});
+		if (headerKeysLength.some((length: number): boolean => {
+			return (length !== kdfDerivedLength);
+		})) {
+			headerExtensions.set(headerExtensionKeysLength, Uint8Array.from(headerKeysLength));
+		}
+		const headerRaw: Uint8Array<ArrayBuffer> = encodeHeader({
+			extensions: headerExtensions,
+			keys: keyMaterialsDerived.map(({ headerKey }: SymmetricCryptorKeyMaterialDerived): SymmetricCryptorHeaderKey => {
+				return headerKey;
+			}),
+			layers: headerLayers
+		});
+		const headerAdditionalData: Uint8Array<ArrayBuffer> = concatBytes(headerRaw, additionalData ?? new Uint8Array(0));
 		let bin: Uint8Array = new Uint8Array(data);
-		for (const cryptoKey of cryptoKeys) {
-			bin = await cryptoKey.encrypt(bin);
+		for (const layer of headerLayers) {
+			bin = await keyMaterialsDerived[layer.key].keyMaterial.encrypt(new Uint8Array(bin), resolveAlgorithmFromID(layer.algorithm), headerAdditionalData, layer.flags);
 		}
-		return bin;
+		return concatBytes(headerRaw, bin);
+	}
+	async #encryptEnvelope(data: Uint8Array, options: SymmetricCryptorCryptOptions, cryptoKeysResolved?: readonly SymmetricCryptorService[]): Promise<Uint8Array> {
+		const dataKey: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(envelopeDataKeyLength));
+		const nonce: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(envelopeNonceLength));
+		const headerRaw: Uint8Array<ArrayBuffer> = encodeHeaderEnvelope({ wrappedKey: await this.#encrypt(dataKey, options, { cryptoKeys: cryptoKeysResolved }) });
+		const cryptoKey: CryptoKey = await crypto.subtle.importKey("raw", dataKey, { name: "AES-GCM" }, false, ["encrypt"]);
+		return concatBytes(headerRaw, nonce, new Uint8Array(await crypto.subtle.encrypt({
+			name: "AES-GCM",
+			additionalData: resolveEnvelopeAdditionalData(resolveAdditionalData(options.additionalData) ?? this.#additionalData),
+			iv: nonce
+		}, cryptoKey, data.slice())));
+	}
+	async #encryptThreshold(data: Uint8Array, options: SymmetricCryptorCryptOptions, cryptoKeysResolved?: readonly SymmetricCryptorService[]): Promise<Uint8Array> {
+		const cryptoKeys: readonly SymmetricCryptorService[] = cryptoKeysResolved ?? await this.#getCryptoKeys();
+		const dataKey: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(envelopeDataKeyLength));
+		const nonce: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(envelopeNonceLength));
+		const shares: ShamirShare[] = splitSecret(dataKey, cryptoKeys.length, this.#threshold!);
+		const headerRaw: Uint8Array<ArrayBuffer> = encodeHeaderThreshold({
+			shares: await Promise.all(shares.map(async (share: ShamirShare, index: number): Promise<SymmetricCryptorHeaderThresholdShare> => {
+				return {
+					x: share.x,
+					wrappedShare: await this.#encrypt(share.y, options, { cryptoKeys: [cryptoKeys[index]] })
+				};
+			})),
+			threshold: this.#threshold!
+		});
+		const cryptoKey: CryptoKey = await crypto.subtle.importKey("raw", dataKey, { name: "AES-GCM" }, false, ["encrypt"]);
+		return concatBytes(headerRaw, nonce, new Uint8Array(await crypto.subtle.encrypt({
+			name: "AES-GCM",
+			additionalData: concatBytes(headerRaw, resolveAdditionalData(options.additionalData) ?? this.#additionalData ?? new Uint8Array(0)),
+			iv: nonce
+		}, cryptoKey, data.slice())));
+	}
+	async #encryptMessage(data: Uint8Array, options: SymmetricCryptorCryptOptions, cryptoKeysResolved?: readonly SymmetricCryptorService[]): Promise<Uint8Array> {
+		switch (this.#cipherTextFormat) {
+			case "jwe": {
+				this.#assertInteropAdditionalData(options);
+				const [cryptoKey]: readonly SymmetricCryptorService[] = cryptoKeysResolved ?? await this.#getCryptoKeys();
+				return new TextEncoder().encode(await encryptJWE(cryptoKey.key, data, resolveJWEEncryptOptions(cryptoKey)));
+			}
+			case "openssl": {
+				this.#assertInteropAdditionalData(options);
+				const [cryptoKey]: readonly SymmetricCryptorService[] = cryptoKeysResolved ?? await this.#getCryptoKeys();
+				return await encryptOpenSSL(cryptoKey.key, data, resolveOpenSSLOptions(cryptoKey));
+			}
+			case "native":
+				if (this.#envelope) {
+					return await this.#encryptEnvelope(data, options, cryptoKeysResolved);
+				}
+				if (typeof this.#threshold !== "undefined") {
+					return await this.#encryptThreshold(data, options, cryptoKeysResolved);
+				}
+				return await this.#encrypt(data, options, {
+					cryptoKeys: cryptoKeysResolved,
+					message: true
+				});
+		}
+	}
+	// JWE compact serialization is already a string.
+	async #decodeCipherText(data: string): Promise<Uint8Array> {
+		return (isJWECompact(data) ? new TextEncoder().encode(data) : await this.#cipherTextDecoder(data));
+	}
+	async #encodeCipherText(data: Uint8Array): Promise<string> {
+		return ((this.#cipherTextFormat === "jwe") ? new TextDecoder().decode(data) : await this.#cipherTextEncoder(data));
 	}
 	/**
 	 * Encrypt the data.
 	 * @param {string} data Data that need to encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
 	 * @returns {Promise<string>} The encrypted data.
 	 */
-	async encrypt(data: string): Promise<string>;
+	async encrypt(data: string, options?: SymmetricCryptorCryptOptions): Promise<string>;
 	/**
 	 * Encrypt the data.
 	 * @param {Uint8Array} data Data that need to encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<Uint8Array>} The encrypted data.
+	 */
+	async encrypt(data: Uint8Array, options?: SymmetricCryptorCryptOptions): Promise<Uint8Array>;
+	async encrypt(data: string | Uint8Array, options: SymmetricCryptorCryptOptions = {}): Promise<string | Uint8Array> {
+		if (typeof data === "string") {
+			const encrypted: Uint8Array = await this.#encryptMessage(new TextEncoder().encode(data), options);
+			return await this.#encodeCipherText(encrypted);
+		}
+		return await this.#encryptMessage(data, options);
+	}
+	/**
+	 * Decrypt the fields of the value, which encrypted by method {@linkcode encryptFields}; Return a new value with the same shape, and the value is not modified.
+	 * @template {object} T
+	 * @param {T} value Value which has the encrypted fields.
+	 * @param {readonly SymmetricCryptorFieldPath[]} paths Paths of the fields.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<T>} The value which has the decrypted fields.
+	 */
+	async decryptFields<T extends object>(value: T, paths: readonly SymmetricCryptorFieldPath[], options: SymmetricCryptorCryptOptions = {}): Promise<T> {
+		return await mapFields(value, paths, async (field: unknown, path: string): Promise<unknown> => {
+			if (typeof field !== "string") {
+				throw new TypeError(`Field \`${path}\` is not a cipher text string!`);
+			}
+			return await this.decryptJSON(field, options);
+		});
+	}
+	/**
+	 * Decrypt the value, which encrypted by method {@linkcode encryptJSON}.
+	 * @template {unknown} [T=unknown]
+	 * @param {string} data Data that need to decrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<T>} The decrypted value.
+	 */
+	async decryptJSON<T = unknown>(data: string, options: SymmetricCryptorCryptOptions = {}): Promise<T> {
+		return deserializeJSON(await this.decrypt(data, options)) as T;
+	}
+	/**
+	 * Decrypt the items in batch, the results are in the same order as the items.
+	 * @param {Iterable<string> | AsyncIterable<string>} data Items that need to decrypt.
+	 * @param {SymmetricCryptorBatchDecryptOptions & { settled: true; }} options Options of this crypto.
+	 * @returns {Promise<SymmetricCryptorBatchResult<string>[]>} The result of each item.
+	 */
+	async decryptMany(data: Iterable<string> | AsyncIterable<string>, options: SymmetricCryptorBatchDecryptOptions & { settled: true; }): Promise<SymmetricCryptorBatchResult<string>[]>;
+	/**
+	 * Decrypt the items in batch, the results are in the same order as the items.
+	 * @param {Iterable<Uint8Array> | AsyncIterable<Uint8Array>} data Items that need to decrypt.
+	 * @param {SymmetricCryptorBatchDecryptOptions & { settled: true; }} options Options of this crypto.
+	 * @returns {Promise<SymmetricCryptorBatchResult<Uint8Array>[]>} The result of each item.
+	 */
+	async decryptMany(data: Iterable<Uint8Array> | AsyncIterable<Uint8Array>, options: SymmetricCryptorBatchDecryptOptions & { settled: true; }): Promise<SymmetricCryptorBatchResult<Uint8Array>[]>;
+	/**
+	 * Decrypt the items in batch, the results are in the same order as the items; Reject when any item is fail to decrypt.
+	 * @param {Iterable<string> | AsyncIterable<string>} data Items that need to decrypt.
+	 * @param {SymmetricCryptorBatchDecryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string[]>} The decrypted items.
+	 */
+	async decryptMany(data: Iterable<string> | AsyncIterable<string>, options?: SymmetricCryptorBatchDecryptOptions & { settled?: false; }): Promise<string[]>;
+	/**
+	 * Decrypt the items in batch, the results are in the same order as the items; Reject when any item is fail to decrypt.
+	 * @param {Iterable<Uint8Array> | AsyncIterable<Uint8Array>} data Items that need to decrypt.
+	 * @param {SymmetricCryptorBatchDecryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<Uint8Array[]>} The decrypted items.
+	 */
+	async decryptMany(data: Iterable<Uint8Array> | AsyncIterable<Uint8Array>, options?: SymmetricCryptorBatchDecryptOptions & { settled?: false; }): Promise<Uint8Array[]>;
+	async decryptMany(data: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>, options: SymmetricCryptorBatchDecryptOptions = {}): Promise<(string | Uint8Array | SymmetricCryptorBatchResult<string | Uint8Array>)[]> {
+		const concurrency: number = resolveConcurrency(options.concurrency ?? 4, "options.concurrency");
+		const decrypt = async (item: string | Uint8Array): Promise<string | Uint8Array> => {
+			if (typeof item === "string") {
+				return new TextDecoder().decode(await this.#decrypt(await this.#decodeCipherText(item), options));
+			}
+			return await this.#decrypt(item, options);
+		};
+		if (options.settled) {
+			return await mapConcurrent(data, concurrency, async (item: string | Uint8Array): Promise<SymmetricCryptorBatchResult<string | Uint8Array>> => {
+				try {
+					return {
+						ok: true,
+						value: await decrypt(item)
+					};
+				} catch (error) {
+					return {
+						error,
+						ok: false
+					};
+				}
+			});
+		}
+		return await mapConcurrent(data, concurrency, decrypt);
+	}
+	/**
+	 * Get a stream to decrypt the data, which encrypted by method {@linkcode encryptStream}.
+	 *
+	 * The stream is process in segments, therefore the memory usage is bounded by the segment size; Truncated, reordered, or tampered segments are detected.
+	 *
+	 * Data which encrypted by method {@linkcode encrypt} is also accepted, but it is buffered in the memory entirely; Always buffer in the legacy cipher text format.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {TransformStream<Uint8Array, Uint8Array>} A stream to decrypt the data.
+	 * @example
+	 * ```ts
+	 * await file.readable.pipeThrough(cryptor.decryptStream()).pipeTo(target.writable);
+	 * ```
+	 */
+	decryptStream(options: SymmetricCryptorCryptOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+		// Legacy cipher text is headerless, the stream framing is not trustworthy.
+		let buffered: boolean = this.#legacy;
+		let counter: number = 0;
+		let pending: Uint8Array = new Uint8Array(0);
+		const pendingBuffered: Uint8Array[] = [];
+		let state: {
+			cryptoKey: CryptoKey;
+			headerRaw: Uint8Array<ArrayBuffer>;
+			noncePrefix: Uint8Array;
+			segmentSize: number;
+		} | undefined = undefined;
+		return new TransformStream<Uint8Array, Uint8Array>({
+			transform: async (chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>): Promise<void> => {
+				if (buffered) {
+					pendingBuffered.push(chunk);
+					return;
+				}
+				pending = concatBytes(pending, chunk);
+				if (typeof state === "undefined" && pending.length >= headerStreamMagic.length && !isStartWithMagic(pending, headerStreamMagic)) {
+					buffered = true;
+					pendingBuffered.push(pending);
+					return;
+				}
+				if (typeof state === "undefined") {
+					const headerDecoded: ReturnType<typeof decodeHeaderStream> = decodeHeaderStream(pending);
+					if (typeof headerDecoded === "undefined") {
+						return;
+					}
+					state = {
+						cryptoKey: await crypto.subtle.importKey("raw", new Uint8Array(await this.#decrypt(headerDecoded.header.wrappedKey, options)), { name: "AES-GCM" }, false, ["decrypt"]),
+						headerRaw: pending.slice(0, headerDecoded.length),
+						noncePrefix: headerDecoded.header.noncePrefix,
+						segmentSize: headerDecoded.header.segmentSize
+					};
+					pending = pending.slice(headerDecoded.length);
+				}
+				while (pending.length > state.segmentSize + streamTagLength) {
+					controller.enqueue(await cryptStreamSegment("decrypt", state.cryptoKey, state.noncePrefix, counter, false, state.headerRaw, pending.subarray(0, state.segmentSize + streamTagLength)));
+					counter += 1;
+					pending = pending.slice(state.segmentSize + streamTagLength);
+				}
+			},
+			flush: async (controller: TransformStreamDefaultController<Uint8Array>): Promise<void> => {
+				if (buffered) {
+					controller.enqueue(await this.#decrypt(concatBytes(...pendingBuffered), options));
+					return;
+				}
+				if (typeof state === "undefined") {
+					if (isStartWithMagic(pending, headerStreamMagic)) {
+						throw new SymmetricCryptorFormatError(`Unable to decrypt the stream, the cipher text is truncated!`);
+					}
+					controller.enqueue(await this.#decrypt(pending, options));
+					return;
+				}
+				controller.enqueue(await cryptStreamSegment("decrypt", state.cryptoKey, state.noncePrefix, counter, true, state.headerRaw, pending));
+			}
+		});
+	}
+	/**
+	 * Decrypt the token which encrypted by method {@linkcode encryptToken}, and verify the issue time.
+	 * @param {string} token Token that need to decrypt.
+	 * @param {SymmetricCryptorTokenDecryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string>} The decrypted data.
+	 * @throws {SymmetricCryptorTokenTimestampError} When the token is expired, or issued in the future beyond the clock skew tolerance.
+	 */
+	async decryptToken(token: string, options: SymmetricCryptorTokenDecryptOptions = {}): Promise<string> {
+		const {
+			clock = Date.now,
+			clockSkew = 60,
+			format = "native",
+			ttl
+		}: SymmetricCryptorTokenDecryptOptions = options;
+		if (!(Number.isSafeInteger(clockSkew) && clockSkew >= 0)) {
+			throw new RangeError(`\`${clockSkew}\` (parameter \`options.clockSkew\`) is not a number which is integer, safe, and >= 0!`);
+		}
+		if (typeof ttl !== "undefined" && !(Number.isSafeInteger(ttl) && ttl >= 0)) {
+			throw new RangeError(`\`${ttl}\` (parameter \`options.ttl\`) is not a number which is integer, safe, and >= 0!`);
+		}
+		let decoded: TokenDecoded;
+		if (resolveTokenFormat(format) === "fernet") {
+			this.#assertInteropAdditionalData(options);
+			decoded = await this.#decryptInterop(await this.#resolveInteropServices(undefined), async (service: SymmetricCryptorService): Promise<TokenDecoded> => {
+				assertFernetService(service);
+				return await decryptFernet(service.key, token);
+			});
+		} else {
+			decoded = decodeTokenPayload(await this.#decrypt(await this.#decodeCipherText(token), this.#resolveTokenOptions(options)));
+		}
+		verifyTokenTimestamp(decoded.timestamp, {
+			clockSkew,
+			now: Math.floor(clock() / 1000),
+			ttl
+		});
+		return new TextDecoder().decode(decoded.data);
+	}
+	/**
+	 * Encrypt the data deterministically, identical data and additional authenticated data under the same keys always result the identical cipher text, which is useful for the equality lookups (e.g.: index the encrypted column of the database).
+	 *
+	 * > [!WARNING]
+	 * > Deterministic encryption reveals whether 2 cipher texts are encrypted from the same data, only use it when the equality lookups are necessary.
+	 *
+	 * The IV of each layer is synthetic from the HMAC of the data and the additional authenticated data (i.e.: SIV), which also authenticate the layer; The key derivation function salt is fixed. The cipher text is decrypted by method {@linkcode decrypt}.
+	 * @param {string} data Data that need to encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string>} The encrypted data.
+	 */
+	async encryptDeterministic(data: string, options?: SymmetricCryptorCryptOptions): Promise<string>;
+	/**
+	 * Encrypt the data deterministically, identical data and additional authenticated data under the same keys always result the identical cipher text, which is useful for the equality lookups (e.g.: index the encrypted column of the database).
+	 *
+	 * > [!WARNING]
+	 * > Deterministic encryption reveals whether 2 cipher texts are encrypted from the same data, only use it when the equality lookups are necessary.
+	 *
+	 * The IV of each layer is synthetic from the HMAC of the data and the additional authenticated data (i.e.: SIV), which also authenticate the layer; The key derivation function salt is fixed. The cipher text is decrypted by method {@linkcode decrypt}.
+	 * @param {Uint8Array} data Data that need to encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
 	 * @returns {Promise<Uint8Array>} The encrypted data.
 	 */
-	async encrypt(data: Uint8Array): Promise<Uint8Array>;
-	async encrypt(data: string | Uint8Array): Promise<string | Uint8Array> {
+	async encryptDeterministic(data: Uint8Array, options?: SymmetricCryptorCryptOptions): Promise<Uint8Array>;
+	async encryptDeterministic(data: string | Uint8Array, options: SymmetricCryptorCryptOptions = {}): Promise<string | Uint8Array> {
+		if (this.#cipherTextFormat !== "native") {
+			throw new SymmetricCryptorConfigError(`Deterministic encryption is not supported in the cipher text format \`${this.#cipherTextFormat}\`!`);
+		}
 		if (typeof data === "string") {
-			const encrypted: Uint8Array = await this.#encrypt(new TextEncoder().encode(data));
+			const encrypted: Uint8Array = await this.#encrypt(new TextEncoder().encode(data), options, {
+				deterministic: true,
+				message: true
+			});
 			return await this.#cipherTextEncoder(encrypted);
 		}
-		return await this.#encrypt(data);
+		return await this.#encrypt(data, options, {
+			deterministic: true,
+			message: true
+		});
+	}
+	/**
+	 * Encrypt the fields of the value, each field is replaced by the cipher text string, with the types preserved; Return a new value with the same shape, and the value is not modified.
+	 *
+	 * Fields which are not exist are skipped.
+	 * @template {object} T
+	 * @param {T} value Value.
+	 * @param {readonly SymmetricCryptorFieldPath[]} paths Paths of the fields.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<T>} The value which has the encrypted fields.
+	 * @example
+	 * ```ts
+	 * await cryptor.encryptFields({ name: "Alice", card: { number: "4111111111111111" } }, ["card.number"]);
+	 * //=> { name: "Alice", card: { number: "<CipherText>" } }
+	 * ```
+	 */
+	async encryptFields<T extends object>(value: T, paths: readonly SymmetricCryptorFieldPath[], options: SymmetricCryptorCryptOptions = {}): Promise<T> {
+		return await mapFields(value, paths, async (field: unknown): Promise<string> => {
+			return await this.encryptJSON(field, options);
+		});
+	}
+	/**
+	 * Encrypt the value, types which are not supported by the JSON (e.g.: `bigint`, `Date`, `Map`, `Set`, `Uint8Array`, `undefined`) are preserved.
+	 * @param {unknown} value Value that need to encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string>} The encrypted data.
+	 */
+	async encryptJSON(value: unknown, options: SymmetricCryptorCryptOptions = {}): Promise<string> {
+		return await this.encrypt(serializeJSON(value), options);
+	}
+	/**
+	 * Encrypt the items in batch, the results are in the same order as the items.
+	 * @param {Iterable<string> | AsyncIterable<string>} data Items that need to encrypt.
+	 * @param {SymmetricCryptorBatchOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string[]>} The encrypted items.
+	 */
+	async encryptMany(data: Iterable<string> | AsyncIterable<string>, options?: SymmetricCryptorBatchOptions): Promise<string[]>;
+	/**
+	 * Encrypt the items in batch, the results are in the same order as the items.
+	 * @param {Iterable<Uint8Array> | AsyncIterable<Uint8Array>} data Items that need to encrypt.
+	 * @param {SymmetricCryptorBatchOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<Uint8Array[]>} The encrypted items.
+	 */
+	async encryptMany(data: Iterable<Uint8Array> | AsyncIterable<Uint8Array>, options?: SymmetricCryptorBatchOptions): Promise<Uint8Array[]>;
+	async encryptMany(data: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>, options: SymmetricCryptorBatchOptions = {}): Promise<(string | Uint8Array)[]> {
+		const concurrency: number = resolveConcurrency(options.concurrency ?? 4, "options.concurrency");
+		// The current keys are resolve once for the whole batch.
+		const cryptoKeys: readonly SymmetricCryptorService[] = await this.#getCryptoKeys();
+		return await mapConcurrent(data, concurrency, async (item: string | Uint8Array): Promise<string | Uint8Array> => {
+			if (typeof item === "string") {
+				return await this.#encodeCipherText(await this.#encryptMessage(new TextEncoder().encode(item), options, cryptoKeys));
+			}
+			return await this.#encryptMessage(item, options, cryptoKeys);
+		});
+	}
+	/**
+	 * Get a stream to encrypt the data.
+	 *
+	 * The stream is process in segments, therefore the memory usage is bounded by the segment size. Each segment is encrypted by AES-GCM with a random data key, which is wrapped by the keys of the symmetric cryptor.
+	 *
+	 * In the legacy cipher text format, the data is buffered and encrypted as a whole instead.
+	 * @param {SymmetricCryptorStreamOptions} [options={}] Options of this crypto.
+	 * @returns {TransformStream<Uint8Array, Uint8Array>} A stream to encrypt the data.
+	 * @example
+	 * ```ts
+	 * await file.readable.pipeThrough(cryptor.encryptStream()).pipeTo(target.writable);
+	 * ```
+	 */
+	encryptStream(options: SymmetricCryptorStreamOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+		const { segmentSize = 65536 }: SymmetricCryptorStreamOptions = options;
+		if (!(Number.isSafeInteger(segmentSize) && segmentSize >= 1 && segmentSize <= headerStreamSegmentSizeMaximum)) {
+			throw new RangeError(`\`${segmentSize}\` (parameter \`options.segmentSize\`) is not a number which is integer, safe, and between 1 and ${headerStreamSegmentSizeMaximum}!`);
+		}
+		if (this.#legacy) {
+			const chunks: Uint8Array[] = [];
+			return new TransformStream<Uint8Array, Uint8Array>({
+				transform: (chunk: Uint8Array): void => {
+					chunks.push(chunk);
+				},
+				flush: async (controller: TransformStreamDefaultController<Uint8Array>): Promise<void> => {
+					controller.enqueue(await this.#encryptMessage(concatBytes(...chunks), options));
+				}
+			});
+		}
+		let counter: number = 0;
+		let pending: Uint8Array = new Uint8Array(0);
+		let state: {
+			cryptoKey: CryptoKey;
+			headerRaw: Uint8Array<ArrayBuffer>;
+			noncePrefix: Uint8Array;
+		} | undefined = undefined;
+		return new TransformStream<Uint8Array, Uint8Array>({
+			start: async (controller: TransformStreamDefaultController<Uint8Array>): Promise<void> => {
+				const dataKey: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(streamDataKeyLength));
+				const noncePrefix: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(headerStreamNoncePrefixLength));
+				state = {
+					cryptoKey: await crypto.subtle.importKey("raw", dataKey, { name: "AES-GCM" }, false, ["encrypt"]),
+					headerRaw: encodeHeaderStream({
+						noncePrefix,
+						segmentSize,
+						wrappedKey: (typeof this.#threshold === "undefined") ? await this.#encrypt(dataKey, options) : await this.#encryptThreshold(dataKey, options)
+					}),
+					noncePrefix
+				};
+				controller.enqueue(state.headerRaw);
+			},
+			transform: async (chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>): Promise<void> => {
+				pending = concatBytes(pending, chunk);
+				while (pending.length > segmentSize) {
+					controller.enqueue(await cryptStreamSegment("encrypt", state!.cryptoKey, state!.noncePrefix, counter, false, state!.headerRaw, pending.subarray(0, segmentSize)));
+					counter += 1;
+					pending = pending.slice(segmentSize);
+				}
+			},
+			flush: async (controller: TransformStreamDefaultController<Uint8Array>): Promise<void> => {
+				controller.enqueue(await cryptStreamSegment("encrypt", state!.cryptoKey, state!.noncePrefix, counter, true, state!.headerRaw, pending));
+			}
+		});
+	}
+	/**
+	 * Encrypt the data to the time-limited token, which embed the authenticated issue time; Use method {@linkcode decryptToken} with the property {@linkcode SymmetricCryptorTokenDecryptOptions.ttl} to reject the expired token.
+	 *
+	 * The native token is bound to the token context as the additional authenticated data, therefore it is not interchangeable with the cipher text of method {@linkcode encrypt}; It is require the cipher text format `native`, and the AEAD algorithm or the MAC.
+	 * @param {string} data Data that need to encrypt.
+	 * @param {SymmetricCryptorTokenOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string>} The token.
+	 * @example
+	 * ```ts
+	 * const token = await cryptor.encryptToken("user@example.com");
+	 * await cryptor.decryptToken(token, { ttl: 3600 });
+	 * ```
+	 */
+	async encryptToken(data: string, options: SymmetricCryptorTokenOptions = {}): Promise<string> {
+		const {
+			clock = Date.now,
+			format = "native"
+		}: SymmetricCryptorTokenOptions = options;
+		const timestamp: number = Math.floor(clock() / 1000);
+		if (resolveTokenFormat(format) === "fernet") {
+			this.#assertInteropAdditionalData(options);
+			const [cryptoKey]: readonly SymmetricCryptorService[] = await this.#getCryptoKeys();
+			assertFernetService(cryptoKey);
+			return await encryptFernet(cryptoKey.key, new TextEncoder().encode(data), timestamp);
+		}
+		return await this.#encodeCipherText(await this.#encryptMessage(encodeTokenPayload(timestamp, new TextEncoder().encode(data)), this.#resolveTokenOptions(options)));
+	}
+	/**
+	 * Re-encrypt the data with the current keys and algorithms, useful for the key rotation; The decrypted data is not expose to the caller.
+	 * @param {string} data Data that need to re-encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string>} The re-encrypted data.
+	 */
+	async reencrypt(data: string, options?: SymmetricCryptorCryptOptions): Promise<string>;
+	/**
+	 * Re-encrypt the data with the current keys and algorithms, useful for the key rotation; The decrypted data is not expose to the caller.
+	 * @param {Uint8Array} data Data that need to re-encrypt.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<Uint8Array>} The re-encrypted data.
+	 */
+	async reencrypt(data: Uint8Array, options?: SymmetricCryptorCryptOptions): Promise<Uint8Array>;
+	async reencrypt(data: string | Uint8Array, options: SymmetricCryptorCryptOptions = {}): Promise<string | Uint8Array> {
+		if (typeof data === "string") {
+			const cipherTextDecoded: Uint8Array = await this.#decodeCipherText(data);
+			return await this.#encodeCipherText(await this.#encryptMessage(await this.#decrypt(cipherTextDecoded, options), options));
+		}
+		return await this.#encryptMessage(await this.#decrypt(data, options), options);
+	}
+	/**
+	 * Rewrap the data key of the envelope cipher text (see property {@linkcode SymmetricCryptorOptions.envelope}) with the keys of another symmetric cryptor, useful for the key rotation; Only the header is changed, the data is not re-encrypt, and the data key is not expose to the caller.
+	 * @param {string} data Envelope cipher text.
+	 * @param {SymmetricCryptorBasic} cryptor Symmetric cryptor which has the new keys, the output is encoded by its cipher text coder.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<string>} The rewrapped data.
+	 */
+	async rewrap(data: string, cryptor: SymmetricCryptorBasic, options?: SymmetricCryptorCryptOptions): Promise<string>;
+	/**
+	 * Rewrap the data key of the envelope cipher text (see property {@linkcode SymmetricCryptorOptions.envelope}) with the keys of another symmetric cryptor, useful for the key rotation; Only the header is changed, the data is not re-encrypt, and the data key is not expose to the caller.
+	 * @param {Uint8Array} data Envelope cipher text.
+	 * @param {SymmetricCryptorBasic} cryptor Symmetric cryptor which has the new keys.
+	 * @param {SymmetricCryptorCryptOptions} [options={}] Options of this crypto.
+	 * @returns {Promise<Uint8Array>} The rewrapped data.
+	 */
+	async rewrap(data: Uint8Array, cryptor: SymmetricCryptorBasic, options?: SymmetricCryptorCryptOptions): Promise<Uint8Array>;
+	async rewrap(data: string | Uint8Array, cryptor: SymmetricCryptorBasic, options: SymmetricCryptorCryptOptions = {}): Promise<string | Uint8Array> {
+		const dataFmt: Uint8Array = (typeof data === "string") ? await this.#cipherTextDecoder(data) : data;
+		if (this.#legacy || !isStartWithMagic(dataFmt, headerEnvelopeMagic)) {
+			throw new SymmetricCryptorFormatError(`Cipher text is not an envelope cipher text, use method \`reencrypt\` instead!`);
+		}
+		const {
+			body,
+			header
+		} = decodeHeaderEnvelope(dataFmt);
+		const dataKey: Uint8Array<ArrayBuffer> = new Uint8Array(await this.#decrypt(header.wrappedKey, options));
+		const result: Uint8Array = concatBytes(encodeHeaderEnvelope({ wrappedKey: await cryptor.#encrypt(dataKey, options) }), body);
+		return ((typeof data === "string") ? await cryptor.#cipherTextEncoder(result) : result);
+	}
+	/**
+	 * Export the key to the other format, useful for share the key with the other WebCrypto code.
+	 * @param {SymmetricCryptorKeyType} key Key.
+	 * @param {"raw"} [format="raw"] Format of the exported key.
+	 * @param {SymmetricCryptorAlgorithm} [algorithm] Algorithm of the exported key, only for the JSON Web Key; Default is the algorithm of the key (if any), otherwise `"AES-CBC"`.
+	 * @returns {Promise<Uint8Array>} Exported key.
+	 */
+	static async exportKey(key: SymmetricCryptorKeyType, format?: "raw", algorithm?: SymmetricCryptorAlgorithm): Promise<Uint8Array>;
+	/**
+	 * Export the key to the other format, useful for share the key with the other WebCrypto code.
+	 * @param {SymmetricCryptorKeyType} key Key.
+	 * @param {"base64" | "base64url"} format Format of the exported key.
+	 * @param {SymmetricCryptorAlgorithm} [algorithm] Algorithm of the exported key, only for the JSON Web Key; Default is the algorithm of the key (if any), otherwise `"AES-CBC"`.
+	 * @returns {Promise<string>} Exported key.
+	 */
+	static async exportKey(key: SymmetricCryptorKeyType, format: "base64" | "base64url", algorithm?: SymmetricCryptorAlgorithm): Promise<string>;
+	/**
+	 * Export the key to the other format, useful for share the key with the other WebCrypto code.
+	 * @param {SymmetricCryptorKeyType} key Key.
+	 * @param {"jwk"} format Format of the exported key.
+	 * @param {SymmetricCryptorAlgorithm} [algorithm] Algorithm of the exported key, only for the JSON Web Key; Default is the algorithm of the key (if any), otherwise `"AES-CBC"`.
+	 * @returns {Promise<JsonWebKey>} Exported key.
+	 */
+	static async exportKey(key: SymmetricCryptorKeyType, format: "jwk", algorithm?: SymmetricCryptorAlgorithm): Promise<JsonWebKey>;
+	static async exportKey(key: SymmetricCryptorKeyType, format?: SymmetricCryptorKeyFormat, algorithm?: SymmetricCryptorAlgorithm): Promise<JsonWebKey | string | Uint8Array> {
+		if (typeof algorithm !== "undefined" && !algorithms.includes(algorithm)) {
+			throw new RangeError(`\`${algorithm}\` is not a valid symmetric crypto algorithm! Only accept these values: ${algorithms.join(", ")}`);
+		}
+		const keyResolved: SymmetricCryptorKeyResolved = await resolveKey(key);
+		return exportKeyBytes(keyResolved.bytes, algorithm ?? keyResolved.algorithm ?? "AES-CBC", format ?? "raw");
+	}
+	/**
+	 * Generate a random key, which is suitable for the key derivation function `"none"` (i.e.: no need to derive, and no slow down by the key derivation function).
+	 * @param {SymmetricCryptorAlgorithm} [algorithm="AES-CBC"] Algorithm of the key, only for the JSON Web Key.
+	 * @param {SymmetricCryptorKeyLength} [length=256] Length of the key, in bits.
+	 * @param {"raw"} [format="raw"] Format of the generated key.
+	 * @returns {Uint8Array} Generated key.
+	 */
+	static generateKey(algorithm?: SymmetricCryptorAlgorithm, length?: SymmetricCryptorKeyLength, format?: "raw"): Uint8Array;
+	/**
+	 * Generate a random key, which is suitable for the key derivation function `"none"` (i.e.: no need to derive, and no slow down by the key derivation function).
+	 * @param {SymmetricCryptorAlgorithm} algorithm Algorithm of the key, only for the JSON Web Key.
+	 * @param {SymmetricCryptorKeyLength} length Length of the key, in bits.
+	 * @param {"base64" | "base64url"} format Format of the generated key.
+	 * @returns {string} Generated key.
+	 */
+	static generateKey(algorithm: SymmetricCryptorAlgorithm, length: SymmetricCryptorKeyLength, format: "base64" | "base64url"): string;
+	/**
+	 * Generate a random key, which is suitable for the key derivation function `"none"` (i.e.: no need to derive, and no slow down by the key derivation function).
+	 * @param {SymmetricCryptorAlgorithm} algorithm Algorithm of the key.
+	 * @param {SymmetricCryptorKeyLength} length Length of the key, in bits.
+	 * @param {"jwk"} format Format of the generated key.
+	 * @returns {JsonWebKey} Generated key.
+	 */
+	static generateKey(algorithm: SymmetricCryptorAlgorithm, length: SymmetricCryptorKeyLength, format: "jwk"): JsonWebKey;
+	static generateKey(algorithm: SymmetricCryptorAlgorithm = "AES-CBC", length: SymmetricCryptorKeyLength = 256, format: SymmetricCryptorKeyFormat = "raw"): JsonWebKey | string | Uint8Array {
+		if (!algorithms.includes(algorithm)) {
+			throw new RangeError(`\`${algorithm}\` is not a valid symmetric crypto algorithm! Only accept these values: ${algorithms.join(", ")}`);
+		}
+		if (!keyLengths.includes(length)) {
+			throw new RangeError(`\`${length}\` (parameter \`length\`) is not a valid key length! Only accept these values: ${keyLengths.join(", ")}`);
+		}
+		return exportKeyBytes(crypto.getRandomValues(new Uint8Array(length / 8)), algorithm, format);
 	}
 }
 export default SymmetricCryptorBasic;
@@ -0,0 +1,3 @@
+import process from "node:process";
+import { invokeCLI } from "./_cli.ts";
+process.exitCode = await invokeCLI(process.argv.slice(2));
@@ -2,8 +2,43 @@ import {
 	decodeAscii85,
 	encodeAscii85
 } from "jsr:@std/encoding@^1.0.10/ascii85";
-import { deepStrictEqual } from "node:assert";
-import { SymmetricCryptor } from "./mod.ts";
+import {
+	deepStrictEqual,
+	notDeepStrictEqual
+} from "node:assert";
+import { Buffer } from "node:buffer";
+import { resolveAlgorithmFromID } from "./_algorithm.ts";
+import { mapConcurrent } from "./_concurrency.ts";
+import {
+	invokeCLI,
+	type SymmetricCryptorCLIContext
+} from "./_cli.ts";
+import {
+	fileSystemDeno,
+	fileSystemNode
+} from "./_fs.ts";
+import {
+	decodeHeader,
+	decodeHeaderStrings,
+	encodeHeaderEnvelope,
+	headerEnvelopeMagic,
+	headerExtensionKeysID,
+	headerLayerFlagMAC,
+	headerLayerFlagSIV,
+	isStartWithMagic,
+	type SymmetricCryptorHeader
+} from "./_header.ts";
+import {
+	SymmetricCryptor,
+	SymmetricCryptorAuthenticationError,
+	SymmetricCryptorConfigError,
+	SymmetricCryptorFormatError,
+	SymmetricCryptorKeyError,
+	SymmetricCryptorKeyProviderEnvironment,
+	SymmetricCryptorKeyProviderKeystore,
+	SymmetricCryptorTokenTimestampError,
+	SymmetricCryptorUnsupportedVersionError
+} from "./mod.ts";
 const ignore = !(
 	Deno.args.includes("--force") ||
 	Deno.env.get("GITHUB_ACTIONS") === "true"
@@ -20,12 +55,21 @@ Accusam dolores et eirmod erat sadipscing lorem illum erat commodo vero gubergre
 
 Takimata sea takimata est sit kasd et est lorem nibh in est diam. Ipsum vulputate erat amet invidunt justo te ipsum eos ipsum sed dolor. Amet no et diam. Amet ut et gubergren amet ut sed accusam duis et. Iriure kasd amet amet. In dolor sit hendrerit gubergren nulla et sea autem sanctus diam eos. Magna nonummy labore delenit clita lorem vero eirmod et nonumy sadipscing et ipsum elitr vel consetetur nonumy. Praesent eum at lobortis consequat dolor ut sanctus sadipscing sit. Accusam consetetur no velit aliquam et lorem assum in illum sed sea et et aliquip sea quod amet. Dolor zzril ut et sadipscing vero ut id dolore eu veniam velit kasd. Erat lorem sit consequat feugiat tation at sed dolore dolor sea autem in sadipscing dolore sed.`;
 const sample2UInt8 = new TextEncoder().encode(sample2String);
+function decodeHeaderOf(data: string | Uint8Array): SymmetricCryptorHeader {
+	return decodeHeader((typeof data === "string") ? Buffer.from(data, "base64") : data).header;
+}
+function resolveLayersAlgorithm(header: SymmetricCryptorHeader): string[] {
+	return header.layers.map((layer) => resolveAlgorithmFromID(layer.algorithm));
+}
 Deno.test("Decrypt String 1 Base64", { permissions: "none" }, async () => {
-	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!", { legacy: true });
 	deepStrictEqual(await cryptor.decrypt("6zUMUyY3gQaKqCZZOcFGucdlpnQa5i97PfypJpByA+Y="), sample1String);
 });
 Deno.test("Decrypt String 1 Base64URL", { permissions: "none" }, async () => {
-	const cryptor = new SymmetricCryptor("<PassWord123456>!!", { cipherTextCoder: "base64url" });
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!", {
+		cipherTextCoder: "base64url",
+		legacy: true
+	});
 	deepStrictEqual(await cryptor.decrypt("6zUMUyY3gQaKqCZZOcFGucdlpnQa5i97PfypJpByA-Y="), sample1String);
 });
 Deno.test("Decrypt String 1 ASCII85", { permissions: "none" }, async () => {
@@ -37,7 +81,8 @@ Deno.test("Decrypt String 1 ASCII85", { permissions: "none" }, async () => {
 			encoder(data) {
 				return encodeAscii85(data);
 			}
-		}
+		},
+		legacy: true
 	});
 	deepStrictEqual(await cryptor.decrypt("lST)L-9$J[MPqk)3Pe1qa(;,i)Wi]\"4oD9+OE(Hc"), sample1String);
 });
@@ -157,6 +202,48 @@ Deno.test("Full UInt8 AES-CBC,AES-CTR,AES-GCM", { permissions: "none" }, async (
 	console.log(encrypted);
 	deepStrictEqual(await cryptor.decrypt(encrypted), sample1UInt8);
 });
+Deno.test("Full String ChaCha20-Poly1305,XChaCha20-Poly1305", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor([
+		{ algorithm: "ChaCha20-Poly1305", key: "<PassWord123456>!!" },
+		{ algorithm: "XChaCha20-Poly1305", key: "<PassWord123456>!!" }
+	], { additionalData: "tenant:1" });
+	const encrypted = await cryptor.encrypt(sample2String);
+	deepStrictEqual(resolveLayersAlgorithm(decodeHeaderOf(encrypted)), ["ChaCha20-Poly1305", "XChaCha20-Poly1305"]);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample2String);
+	await cryptor.decrypt(encrypted, { additionalData: "tenant:2" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	await new SymmetricCryptor({
+		algorithm: "XChaCha20-Poly1305",
+		key: "<PassWord123456>!!",
+		length: 128
+	}).encrypt(sample1String).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Full String AES-KW Envelope", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-KW",
+		key: SymmetricCryptor.generateKey("AES-KW", 256, "jwk")
+	}, { envelope: true });
+	const encrypted = await cryptor.encrypt(sample1String, { additionalData: "document" });
+	deepStrictEqual(isStartWithMagic(Buffer.from(encrypted, "base64"), headerEnvelopeMagic), true);
+	deepStrictEqual(await cryptor.decrypt(encrypted, { additionalData: "document" }), sample1String);
+	// Message is not encryptable with the AES-KW directly, even when the length is fit.
+	const cryptorMessage = new SymmetricCryptor({
+		algorithm: "AES-KW",
+		key: "<PassWord123456>!!"
+	});
+	for (const data of [sample1String, "0123456789abcdef"]) {
+		await cryptorMessage.encrypt(data).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof SymmetricCryptorConfigError, true);
+		});
+	}
+	const encryptedStream = await streamToBytes(bytesToStream(sample2UInt8, 7).pipeThrough(cryptorMessage.encryptStream()));
+	deepStrictEqual(await streamToBytes(bytesToStream(encryptedStream, 5).pipeThrough(cryptorMessage.decryptStream())), sample2UInt8);
+});
 Deno.test("Full String Large AES-CBC,AES-CTR,AES-GCM", { permissions: "none" }, async () => {
 	const cryptor = new SymmetricCryptor([
 		{ algorithm: "AES-CBC", key: "<PassWord123456>!!" },
@@ -177,6 +264,166 @@ Deno.test("Full UInt8 Large AES-CBC,AES-CTR,AES-GCM", { permissions: "none" }, a
 	console.log(encrypted);
 	deepStrictEqual(await cryptor.decrypt(encrypted), sample2UInt8);
 });
+Deno.test("Deterministic AES-CBC,AES-CTR,AES-GCM", { permissions: "none" }, async () => {
+	const keys = [
+		{ algorithm: "AES-CBC", key: "<PassWord123456>!!" },
+		{ algorithm: "AES-CTR", key: "<PassWord123456>!!" },
+		{ algorithm: "AES-GCM", key: "<PassWord123456>!!" }
+	] as const;
+	const cryptor = new SymmetricCryptor(keys);
+	const encrypted = await cryptor.encryptDeterministic(sample1String, { additionalData: "email" });
+	deepStrictEqual(await cryptor.encryptDeterministic(sample1String, { additionalData: "email" }), encrypted);
+	deepStrictEqual(await new SymmetricCryptor(keys).encryptDeterministic(sample1String, { additionalData: "email" }), encrypted);
+	deepStrictEqual((await cryptor.encryptDeterministic(sample2String)) === (await cryptor.encryptDeterministic(sample1String)), false);
+	deepStrictEqual((await cryptor.encryptDeterministic(sample1String)) === encrypted, false);
+	deepStrictEqual(await cryptor.decrypt(encrypted, { additionalData: "email" }), sample1String);
+	await cryptor.decrypt(encrypted, { additionalData: "phone" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Deterministic Tamper", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({ algorithm: "AES-CTR", key: "<PassWord123456>!!" });
+	const encrypted = await cryptor.encryptDeterministic(sample1UInt8);
+	const tampered = encrypted.slice();
+	tampered[tampered.length - 1] ^= 1;
+	await cryptor.decrypt(tampered).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	await new SymmetricCryptor("<PassWord123456>!!", { legacy: true }).encryptDeterministic(sample1UInt8).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Deterministic SIV Downgrade", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({ algorithm: "AES-CTR", key: "<PassWord123456>!!" });
+	const encrypted = await cryptor.encryptDeterministic("pay alice 100");
+	const { headerRaw } = decodeHeader(Buffer.from(encrypted, "base64"));
+	deepStrictEqual(decodeHeaderOf(encrypted).layers[0].flags, headerLayerFlagSIV);
+	// Clear the SIV flag of the layer, and flip the counter mode cipher text.
+	const tampered = Buffer.from(encrypted, "base64");
+	tampered[headerRaw.length - 4] &= ~headerLayerFlagSIV;
+	tampered[headerRaw.length + 16 + 10] ^= "1".charCodeAt(0) ^ "9".charCodeAt(0);
+	deepStrictEqual(await new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!"
+	}, { mac: false }).decrypt(tampered.toString("base64")), "pay alice 900");
+	await cryptor.decrypt(tampered.toString("base64")).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+});
+Deno.test("Envelope Rewrap", { permissions: "none" }, async () => {
+	const cryptorOld = new SymmetricCryptor("<PassWord123456>!!", { envelope: true });
+	const cryptorNew = new SymmetricCryptor({ algorithm: "AES-GCM", key: "<NewPassWord654321>??" }, { envelope: true });
+	const encrypted = await cryptorOld.encrypt(sample2UInt8, { additionalData: "document" });
+	deepStrictEqual(await cryptorOld.decrypt(encrypted, { additionalData: "document" }), sample2UInt8);
+	deepStrictEqual(await new SymmetricCryptor("<PassWord123456>!!").decrypt(encrypted, { additionalData: "document" }), sample2UInt8);
+	await cryptorOld.decrypt(encrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	const rewrapped = await cryptorOld.rewrap(encrypted, cryptorNew, { additionalData: "document" });
+	deepStrictEqual(rewrapped.slice(rewrapped.length - sample2UInt8.length), encrypted.slice(encrypted.length - sample2UInt8.length));
+	deepStrictEqual(await cryptorNew.decrypt(rewrapped, { additionalData: "document" }), sample2UInt8);
+	await cryptorOld.decrypt(rewrapped, { additionalData: "document" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	await cryptorOld.rewrap(await new SymmetricCryptor("<PassWord123456>!!").encrypt(sample1String), cryptorNew).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	deepStrictEqual(await cryptorNew.decrypt(await cryptorNew.encrypt(sample1String)), sample1String);
+});
+Deno.test("Envelope Forgery", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!", { envelope: true });
+	// Data key is wrapped by a header without any key and layer.
+	const forged = Uint8Array.from([...encodeHeaderEnvelope({ wrappedKey: Uint8Array.from([0x53, 0x59, 0x4D, 0x43, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, ...new Uint8Array(32)]) }), ...new Uint8Array(12 + 16)]);
+	await cryptor.decrypt(forged).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	const cryptorLegacy = new SymmetricCryptor("<PassWord123456>!!", { legacy: true });
+	// Envelope framing is treated as the legacy cipher text, which is not able to decrypt.
+	notDeepStrictEqual(await cryptorLegacy.decrypt(encrypted).catch(() => undefined), sample1UInt8);
+	await cryptorLegacy.rewrap(encrypted, new SymmetricCryptor("<PassWord123456>!!")).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+});
+Deno.test("Key Provider Environment", { permissions: { env: true } }, async () => {
+	Deno.env.set("TEST_SYMMETRIC_CRYPTO_KEY_ID", "2024");
+	Deno.env.set("TEST_SYMMETRIC_CRYPTO_KEY_2024", "<PassWord123456>!!");
+	Deno.env.set("TEST_SYMMETRIC_CRYPTO_KEY_2025", "<NewPassWord654321>??");
+	try {
+		const cryptor = new SymmetricCryptor({
+			algorithm: "AES-GCM",
+			key: new SymmetricCryptorKeyProviderEnvironment({
+				currentKeyIdName: "TEST_SYMMETRIC_CRYPTO_KEY_ID",
+				keyNamePrefix: "TEST_SYMMETRIC_CRYPTO_KEY_"
+			})
+		});
+		const encrypted = await cryptor.encrypt(sample1String);
+		Deno.env.set("TEST_SYMMETRIC_CRYPTO_KEY_ID", "2025");
+		const encryptedNew = await cryptor.encrypt(sample1String);
+		deepStrictEqual(await cryptor.decrypt(encrypted), sample1String);
+		deepStrictEqual(await cryptor.decrypt(encryptedNew), sample1String);
+		deepStrictEqual(await new SymmetricCryptor({ algorithm: "AES-GCM", id: "2025", key: "<NewPassWord654321>??" }).decrypt(encryptedNew), sample1String);
+		Deno.env.delete("TEST_SYMMETRIC_CRYPTO_KEY_2024");
+		await new SymmetricCryptor({
+			algorithm: "AES-GCM",
+			key: new SymmetricCryptorKeyProviderEnvironment({
+				currentKeyIdName: "TEST_SYMMETRIC_CRYPTO_KEY_ID",
+				keyNamePrefix: "TEST_SYMMETRIC_CRYPTO_KEY_"
+			})
+		}).decrypt(encrypted).then(() => {
+			throw new Error(`Expect reject.`);
+		}, () => { });
+	} finally {
+		Deno.env.delete("TEST_SYMMETRIC_CRYPTO_KEY_ID");
+		Deno.env.delete("TEST_SYMMETRIC_CRYPTO_KEY_2024");
+		Deno.env.delete("TEST_SYMMETRIC_CRYPTO_KEY_2025");
+	}
+});
+Deno.test("JSON", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const value = {
+		$symc: "escaped",
+		bigint: 12345678901234567890n,
+		bytes: sample1UInt8,
+		date: new Date("2020-01-01T00:00:00Z"),
+		list: [1, undefined, Number.NaN, -0, Infinity],
+		map: new Map<unknown, unknown>([["a", 1], [2, new Set(["b"])]]),
+		nested: { text: sample1String }
+	};
+	deepStrictEqual(await cryptor.decryptJSON(await cryptor.encryptJSON(value)), value);
+	await cryptor.encryptJSON({ fn() { } }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("JSON Fields", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const value = {
+		id: 1,
+		profile: {
+			birthday: new Date("2000-01-01T00:00:00Z"),
+			email: "alice@example.com"
+		},
+		tokens: [{ secret: "a" }, { secret: "b" }]
+	};
+	const paths = ["profile.birthday", "profile.email", "profile.missing", ["tokens", "*", "secret"]];
+	const encrypted = await cryptor.encryptFields(value, paths);
+	deepStrictEqual(encrypted.id, 1);
+	deepStrictEqual(typeof encrypted.profile.email, "string");
+	deepStrictEqual(typeof encrypted.profile.birthday, "string");
+	deepStrictEqual(typeof encrypted.tokens[1].secret, "string");
+	deepStrictEqual(Object.hasOwn(encrypted.profile, "missing"), false);
+	deepStrictEqual(value.profile.email, "alice@example.com");
+	deepStrictEqual(await cryptor.decryptFields(encrypted, paths), value);
+	await cryptor.decryptFields(value, ["id"]).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
 Deno.test("Full File Large AES-CBC,AES-CTR,AES-GCM", {
 	ignore,
 	permissions: {
@@ -197,3 +444,1122 @@ Deno.test("Full File Large AES-CBC,AES-CTR,AES-GCM", {
 		await Deno.remove(tempfile);
 	}
 });
+Deno.test("Header Decrypt Regardless Options", { permissions: "none" }, async () => {
+	const cryptorEncrypt = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord123456>!!"
+	}, { times: 3 });
+	const cryptorDecrypt = new SymmetricCryptor("<PassWord123456>!!");
+	const encrypted = await cryptorEncrypt.encrypt(sample1String);
+	const header = decodeHeaderOf(encrypted);
+	deepStrictEqual(header.keys.length, 1);
+	deepStrictEqual(resolveLayersAlgorithm(header), ["AES-GCM", "AES-GCM", "AES-GCM"]);
+	deepStrictEqual(header.layers.map((layer) => layer.key), [0, 0, 0]);
+	deepStrictEqual(await cryptorDecrypt.decrypt(encrypted), sample1String);
+});
+Deno.test("Header Legacy", { permissions: "none" }, async () => {
+	const cryptorLegacy = new SymmetricCryptor("<PassWord123456>!!", { legacy: true });
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const encrypted = await cryptorLegacy.encrypt(sample1UInt8);
+	deepStrictEqual(encrypted.length, 32);
+	deepStrictEqual(await cryptorLegacy.decrypt(encrypted), sample1UInt8);
+	await cryptor.decrypt(encrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+	deepStrictEqual((() => {
+		try {
+			new SymmetricCryptor("<PassWord123456>!!", {
+				legacy: true,
+				mac: true
+			});
+			return false;
+		} catch (error) {
+			return (error instanceof SymmetricCryptorConfigError);
+		}
+	})(), true);
+	await new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf: "PBKDF2"
+	}, { legacy: true }).ready().then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorKeyError, true);
+	});
+});
+Deno.test("Header Empty Substitution", { permissions: "none" }, async () => {
+	for (const cryptor of [
+		new SymmetricCryptor("<PassWord123456>!!"),
+		new SymmetricCryptor("<PassWord123456>!!", { mac: false }),
+		new SymmetricCryptor({ algorithm: "AES-GCM", key: "<PassWord123456>!!" }, { additionalData: "document", legacy: true })
+	]) {
+		deepStrictEqual((await cryptor.encrypt(new Uint8Array(0))).length > 0, true);
+		for (const promise of [cryptor.decrypt(""), cryptor.decrypt(new Uint8Array(0))]) {
+			await promise.then(() => {
+				throw new Error(`Expect reject.`);
+			}, (error) => {
+				deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+			});
+		}
+	}
+	deepStrictEqual(await new SymmetricCryptor("<PassWord123456>!!", { legacy: true }).decrypt(""), "");
+});
+Deno.test("Header Empty Forgery", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const forged = Uint8Array.from([0x53, 0x59, 0x4D, 0x43, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, ...new TextEncoder().encode("attacker chosen")]);
+	await cryptor.decrypt(forged).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+	// Keep the keys table of a genuine cipher text, and drop the layers.
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	const layersOffset = 10 + new DataView(encrypted.buffer).getUint16(8);
+	await cryptor.decrypt(Uint8Array.from([...encrypted.slice(0, layersOffset), 0x00, 0x00, 0x00, 0x00, 0x00, ...new TextEncoder().encode("attacker chosen")])).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+});
+Deno.test("KDF PBKDF2 SHA-512", { permissions: "none" }, async () => {
+	const cryptorEncrypt = new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf: {
+			name: "PBKDF2",
+			hash: "SHA-512",
+			iterations: 1000
+		}
+	});
+	const cryptorDecrypt = new SymmetricCryptor("<PassWord123456>!!");
+	const encrypted = await cryptorEncrypt.encrypt(sample1String);
+	const { kdfParameters } = decodeHeaderOf(encrypted).keys[0];
+	// Hash ID of SHA-512, then the iterations.
+	deepStrictEqual(Array.from(kdfParameters.slice(0, 5)), [3, 0x00, 0x00, 0x03, 0xE8]);
+	deepStrictEqual(await cryptorDecrypt.decrypt(encrypted), sample1String);
+});
+Deno.test("KDF PBKDF2 Iterations Bound", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf: {
+			name: "PBKDF2",
+			iterations: 1000
+		}
+	});
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	for (const iterations of [0, 0xFFFFFFFF]) {
+		const tampered = encrypted.slice();
+		// Iterations are after the key derivation function ID, the parameters length, and the hash ID.
+		new DataView(tampered.buffer).setUint32(11, iterations);
+		await cryptor.decrypt(tampered).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+		});
+	}
+	await new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf: {
+			name: "PBKDF2",
+			iterations: 0xFFFFFFFF
+		}
+	}).ready().then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("KDF Custom", { permissions: "none" }, async () => {
+	const kdf = {
+		name: "custom",
+		id: "test-xor",
+		derive(key: Uint8Array, salt: Uint8Array, length: number): Uint8Array {
+			return Uint8Array.from({ length }, (_, index: number): number => {
+				return (key[index % key.length] ^ salt[index % salt.length]);
+			});
+		}
+	} as const;
+	const cryptor = new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf
+	});
+	const encrypted = await cryptor.encrypt(sample1String);
+	const { kdfParameters } = decodeHeaderOf(encrypted).keys[0];
+	deepStrictEqual(new TextDecoder().decode(kdfParameters.slice(1, 1 + kdfParameters[0])), "test-xor");
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample1String);
+	await new SymmetricCryptor("<PassWord123456>!!").decrypt(encrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("KDF None", { permissions: "none" }, async () => {
+	const key = crypto.getRandomValues(new Uint8Array(16));
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key,
+		kdf: "none"
+	});
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample1UInt8);
+	await new SymmetricCryptor({
+		key: new Uint8Array(20),
+		kdf: "none"
+	}).ready().then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Key Length 128", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord123456>!!",
+		length: 128
+	});
+	const encrypted = await cryptor.encrypt(sample1String);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample1String);
+	deepStrictEqual(await new SymmetricCryptor("<PassWord123456>!!").decrypt(encrypted), sample1String);
+});
+Deno.test("Key Generate CryptoKey JWK", { permissions: "none" }, async () => {
+	const keyJWK = SymmetricCryptor.generateKey("AES-GCM", 192, "jwk");
+	deepStrictEqual(keyJWK.alg, "A192GCM");
+	const cryptoKey = await crypto.subtle.importKey("jwk", keyJWK, { name: "AES-GCM" }, true, ["decrypt", "encrypt"]);
+	const encrypted = await new SymmetricCryptor(cryptoKey).encrypt(sample1String);
+	deepStrictEqual(await new SymmetricCryptor(keyJWK).decrypt(encrypted), sample1String);
+	deepStrictEqual(await new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: await SymmetricCryptor.exportKey(cryptoKey, "raw"),
+		kdf: "none"
+	}).decrypt(encrypted), sample1String);
+	deepStrictEqual(SymmetricCryptor.generateKey("AES-CBC", 128, "base64").length, 24);
+	await new SymmetricCryptor(await crypto.subtle.importKey("jwk", keyJWK, { name: "AES-GCM" }, false, ["decrypt", "encrypt"])).ready().then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Format JWE", { permissions: "none" }, async () => {
+	const cryptorDirect = new SymmetricCryptor({
+		key: SymmetricCryptor.generateKey("AES-GCM", 256, "jwk")
+	}, { cipherTextFormat: "jwe" });
+	const encryptedDirect = await cryptorDirect.encrypt(sample1String);
+	deepStrictEqual(encryptedDirect.split(".").length, 5);
+	deepStrictEqual(JSON.parse(Buffer.from(encryptedDirect.split(".")[0], "base64url").toString()).alg, "dir");
+	deepStrictEqual(await cryptorDirect.decrypt(encryptedDirect), sample1String);
+	const cryptorPBES2 = new SymmetricCryptor({
+		id: "2024",
+		key: "<PassWord123456>!!",
+		kdf: { name: "PBKDF2", iterations: 10000 }
+	}, { cipherTextFormat: "jwe" });
+	const encryptedPBES2 = await cryptorPBES2.encrypt(sample2UInt8);
+	deepStrictEqual(await cryptorPBES2.decrypt(encryptedPBES2), sample2UInt8);
+	deepStrictEqual(await new SymmetricCryptor({
+		id: "2024",
+		key: "<PassWord123456>!!"
+	}).decrypt(encryptedPBES2), sample2UInt8);
+	await cryptorPBES2.encrypt(sample1String, { additionalData: "record:1" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	const [headerPBES2, ...partsPBES2] = new TextDecoder().decode(encryptedPBES2).split(".");
+	for (const p2c of [999, 0xFFFFFFFF]) {
+		const header = JSON.parse(Buffer.from(headerPBES2, "base64url").toString());
+		header.p2c = p2c;
+		await cryptorPBES2.decrypt(new TextEncoder().encode([Buffer.from(JSON.stringify(header)).toString("base64url"), ...partsPBES2].join("."))).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+		});
+	}
+	await new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf: { name: "PBKDF2", iterations: 2000000 }
+	}, { cipherTextFormat: "jwe" }).encrypt(sample1String).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Format OpenSSL", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		key: "<PassWord123456>!!",
+		kdf: { name: "PBKDF2", iterations: 10000 }
+	}, { cipherTextFormat: "openssl" });
+	// `openssl enc -aes-256-cbc -pbkdf2 -iter 10000 -md sha256 -a -A`
+	deepStrictEqual(await cryptor.decrypt("U2FsdGVkX19tG4fUlnh4T8nU4sXr/Uybz8ITwNi1nsE="), sample1String);
+	const encrypted = await cryptor.encrypt(sample2String);
+	deepStrictEqual(encrypted.startsWith("U2FsdGVkX1"), true);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample2String);
+	deepStrictEqual(await new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!",
+		kdf: { name: "PBKDF2", hash: "SHA-512", iterations: 1000 },
+		length: 128
+	}).decrypt("U2FsdGVkX18/kblviWCULwCZqLIERTjFr50="), sample1String);
+	await new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord123456>!!"
+	}, { cipherTextFormat: "openssl" }).encrypt(sample1String).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorConfigError, true);
+	});
+	await new SymmetricCryptor({
+		algorithm: "AES-CBC",
+		key: "<PassWord123456>!!",
+		kdf: "none"
+	}, { cipherTextFormat: "openssl" }).encrypt(sample1String).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorKeyError, true);
+	});
+});
+Deno.test("CLI", { permissions: "none" }, async () => {
+	async function invoke(args: string[], stdin: Uint8Array, env: Record<string, string> = { TEST_PASSWORD: "<PassWord123456>!!" }): Promise<{ code: number; stderr: string; stdout: Uint8Array; }> {
+		let stderr = "";
+		let stdout = new Uint8Array(0);
+		const context: SymmetricCryptorCLIContext = {
+			env,
+			fileSystem: fileSystemNode,
+			prompt() {
+				return Promise.resolve("<PassWord123456>!!");
+			},
+			readStdin() {
+				return Promise.resolve(stdin);
+			},
+			writeStderr(message) {
+				stderr += message;
+			},
+			writeStdout(data) {
+				stdout = Uint8Array.from([...stdout, ...data]);
+				return Promise.resolve();
+			}
+		};
+		return { code: await invokeCLI(args, context), stderr, stdout };
+	}
+	const encrypted = await invoke(["encrypt", "--password-env", "TEST_PASSWORD", "--algorithm", "AES-GCM", "--coder", "base64url", "--times", "2"], sample1UInt8);
+	deepStrictEqual(encrypted.code, 0);
+	deepStrictEqual(await new SymmetricCryptor("<PassWord123456>!!", { cipherTextCoder: "base64url" }).decrypt(new TextDecoder().decode(encrypted.stdout).trim()), sample1String);
+	const decrypted = await invoke(["decrypt", "--coder", "base64url"], encrypted.stdout);
+	deepStrictEqual(decrypted.code, 0);
+	deepStrictEqual(decrypted.stdout, sample1UInt8);
+	const decryptedWrong = await invoke(["decrypt", "--coder", "base64url", "--password-env", "TEST_PASSWORD"], encrypted.stdout, { TEST_PASSWORD: "<OtherPassWord>" });
+	deepStrictEqual(decryptedWrong.code, 1);
+	deepStrictEqual(decryptedWrong.stdout.length, 0);
+	deepStrictEqual(decryptedWrong.stderr.startsWith("Error: Unable to decrypt the cipher text"), true);
+	// Corrupted encoding is a usage error, instead of the authentication failure.
+	const encryptedText = new TextDecoder().decode(encrypted.stdout).trim();
+	const encryptedTextBase64 = Buffer.from(encryptedText, "base64url").toString("base64");
+	for (const [input, coder] of [
+		[`${encryptedText.slice(0, 10)}!${encryptedText.slice(10)}`, "base64url"],
+		[`${encryptedText.slice(0, 10)}+${encryptedText.slice(10)}`, "base64url"],
+		[`${encryptedTextBase64.slice(0, 10)}-${encryptedTextBase64.slice(10)}`, "base64"],
+		[`${encryptedTextBase64}=`, "base64"]
+	]) {
+		const decryptedCorrupted = await invoke(["decrypt", "--coder", coder], new TextEncoder().encode(input));
+		deepStrictEqual(decryptedCorrupted.code, 2);
+		deepStrictEqual(decryptedCorrupted.stdout.length, 0);
+		deepStrictEqual(decryptedCorrupted.stderr.startsWith(`Error: Standard input is not a valid \`${coder}\` encoded cipher text!`), true);
+	}
+	const encryptedWrapped = encryptedTextBase64.replace(/(.{64})/g, "$1\n");
+	deepStrictEqual((await invoke(["decrypt"], new TextEncoder().encode(encryptedWrapped))).stdout, sample1UInt8);
+	deepStrictEqual((await invoke(["compress"], sample1UInt8)).code, 2);
+	deepStrictEqual((await invoke(["encrypt", "--algorithm", "AES-ECB"], sample1UInt8)).code, 2);
+	deepStrictEqual((await invoke(["encrypt", "--times", "0"], sample1UInt8)).code, 2);
+	deepStrictEqual((await invoke(["encrypt", "--output", "encrypted.bin"], sample1UInt8)).code, 2);
+});
+Deno.test("AAD AES-GCM", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord123456>!!"
+	}, { additionalData: "tenant:1" });
+	const encrypted = await cryptor.encrypt(sample1String, { additionalData: "record:1" });
+	deepStrictEqual(decodeHeaderOf(encrypted).layers.map((layer) => layer.flags & headerLayerFlagMAC), [0]);
+	deepStrictEqual(await cryptor.decrypt(encrypted, { additionalData: "record:1" }), sample1String);
+	await cryptor.decrypt(encrypted, { additionalData: "record:2" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	await cryptor.decrypt(encrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	const encryptedDefault = await cryptor.encrypt(sample1UInt8);
+	deepStrictEqual(await cryptor.decrypt(encryptedDefault), sample1UInt8);
+	deepStrictEqual(await cryptor.decrypt(encryptedDefault, { additionalData: new TextEncoder().encode("tenant:1") }), sample1UInt8);
+});
+Deno.test("Batch", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord123456>!!"
+	});
+	const items = Array.from({ length: 20 }, (_, index) => `${sample1String}${index}`);
+	const encrypted = await cryptor.encryptMany(items, { concurrency: 3 });
+	deepStrictEqual(encrypted.length, items.length);
+	async function* iterate<T>(values: readonly T[]): AsyncGenerator<T> {
+		for (const value of values) {
+			await new Promise((resolve) => setTimeout(resolve, Math.random() * 5));
+			yield value;
+		}
+	}
+	deepStrictEqual(await cryptor.decryptMany(iterate(encrypted), { concurrency: 5 }), items);
+	deepStrictEqual(await cryptor.decryptMany(await cryptor.encryptMany([sample1UInt8, sample2UInt8])), [sample1UInt8, sample2UInt8]);
+	const encryptedBad = [...encrypted.slice(0, 2), await new SymmetricCryptor("<OtherPassWord>").encrypt(sample1String), encrypted[2]];
+	await cryptor.decryptMany(encryptedBad).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+	const results = await cryptor.decryptMany(encryptedBad, { settled: true });
+	deepStrictEqual(results.map(({ ok }) => ok), [true, true, false, true]);
+	deepStrictEqual(results.flatMap((result) => result.ok ? [result.value] : []), items.slice(0, 3));
+	deepStrictEqual((results[2] as { error: unknown; }).error instanceof SymmetricCryptorAuthenticationError, true);
+});
+Deno.test("Concurrency", { permissions: "none" }, async () => {
+	const started: number[] = [];
+	const finished: number[] = [];
+	const error = new Error("Item #1 is fail!");
+	await mapConcurrent(Array.from({ length: 10 }, (_, index) => index), 2, async (item) => {
+		started.push(item);
+		if (item === 1) {
+			await Promise.resolve();
+			throw error;
+		}
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		finished.push(item);
+	}).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (reason) => {
+		deepStrictEqual(reason, error);
+	});
+	// Item #0 is still pending when item #1 is fail, it is settle before the rejection, and no other item is start.
+	deepStrictEqual(started, [0, 1]);
+	deepStrictEqual(finished, [0]);
+	deepStrictEqual(await mapConcurrent((async function* () {
+		for (let index = 0; index < 5; index += 1) {
+			yield index;
+		}
+	})(), 3, (item) => Promise.resolve(item * 2)), [0, 2, 4, 6, 8]);
+});
+Deno.test("Error Types", { permissions: "none" }, async () => {
+	async function catchError(promise: Promise<unknown>): Promise<unknown> {
+		return await promise.then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => error);
+	}
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		id: "a",
+		key: "<PassWord123456>!!"
+	}, { times: 2 });
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	const errorAuthentication = await catchError(new SymmetricCryptor({ algorithm: "AES-GCM", id: "a", key: "<OtherPassWord>" }, { times: 2 }).decrypt(encrypted));
+	deepStrictEqual(errorAuthentication instanceof SymmetricCryptorAuthenticationError, true);
+	deepStrictEqual((errorAuthentication as SymmetricCryptorAuthenticationError).algorithm, "AES-GCM");
+	deepStrictEqual((errorAuthentication as SymmetricCryptorAuthenticationError).layer, 1);
+	const tampered = encrypted.slice();
+	tampered[tampered.length - 1] ^= 1;
+	deepStrictEqual(await catchError(cryptor.decrypt(tampered)) instanceof SymmetricCryptorAuthenticationError, true);
+	deepStrictEqual(await catchError(cryptor.decrypt(encrypted.slice(0, 8))) instanceof SymmetricCryptorFormatError, true);
+	const versionUnknown = encrypted.slice();
+	versionUnknown[4] = 0xFF;
+	const errorVersion = await catchError(cryptor.decrypt(versionUnknown));
+	deepStrictEqual(errorVersion instanceof SymmetricCryptorUnsupportedVersionError, true);
+	deepStrictEqual(errorVersion instanceof SymmetricCryptorFormatError, true);
+	deepStrictEqual(await catchError(new SymmetricCryptor({ id: "b", key: "<PassWord123456>!!" }).decrypt(encrypted)) instanceof SymmetricCryptorKeyError, true);
+	const cryptorKeyInvalid = new SymmetricCryptor(await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["decrypt", "encrypt"]));
+	deepStrictEqual(await catchError(cryptorKeyInvalid.ready()) instanceof SymmetricCryptorKeyError, true);
+	deepStrictEqual(await catchError(cryptorKeyInvalid.encrypt(sample1UInt8)) instanceof SymmetricCryptorKeyError, true);
+});
+Deno.test("MAC AES-CTR Tamper", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!"
+	});
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample1UInt8);
+	const tampered = encrypted.slice();
+	tampered[tampered.length - 40] ^= 1;
+	await cryptor.decrypt(tampered).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("MAC Downgrade", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!"
+	});
+	const encrypted = await cryptor.encrypt("pay alice 100");
+	const { headerRaw } = decodeHeader(Buffer.from(encrypted, "base64"));
+	// Clear the MAC flag of the layer, drop the tag, and flip the counter mode cipher text.
+	const tampered = Buffer.from(encrypted, "base64").subarray(0, -32);
+	tampered[headerRaw.length - 4] &= ~headerLayerFlagMAC;
+	tampered[headerRaw.length + 16 + 10] ^= "1".charCodeAt(0) ^ "9".charCodeAt(0);
+	deepStrictEqual(await new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!"
+	}, { mac: false }).decrypt(tampered.toString("base64")), "pay alice 900");
+	await cryptor.decrypt(tampered.toString("base64")).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+	// Strip the header to downgrade to the legacy cipher text.
+	await cryptor.decrypt(tampered.subarray(headerRaw.length).toString("base64")).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+});
+Deno.test("MAC Disable", { permissions: "none" }, async () => {
+	const cryptorMAC = new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!"
+	});
+	const cryptor = new SymmetricCryptor({
+		algorithm: "AES-CTR",
+		key: "<PassWord123456>!!"
+	}, { mac: false });
+	const encryptedMAC = await cryptorMAC.encrypt(sample1UInt8);
+	const encrypted = await cryptor.encrypt(sample1UInt8);
+	deepStrictEqual(encryptedMAC.length - encrypted.length, 32);
+	deepStrictEqual(await cryptor.decrypt(encryptedMAC), sample1UInt8);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample1UInt8);
+	await cryptorMAC.decrypt(encrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+});
+Deno.test("Key Rotation By ID", { permissions: "none" }, async () => {
+	const cryptorOld = new SymmetricCryptor({
+		id: "2024",
+		key: "<PassWord123456>!!"
+	});
+	const cryptorNew = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		id: "2025",
+		key: "<PassWord987654>!!"
+	}, {
+		retiredKeys: [
+			{ id: "2023", key: "<PassWord000000>!!" },
+			{ id: "2024", key: "<PassWord123456>!!" }
+		]
+	});
+	const encrypted = await cryptorOld.encrypt(sample1String);
+	deepStrictEqual(await cryptorNew.decrypt(encrypted), sample1String);
+	const reencrypted = await cryptorNew.reencrypt(encrypted);
+	deepStrictEqual(decodeHeaderStrings(decodeHeaderOf(reencrypted).extensions.get(headerExtensionKeysID)!), ["2025"]);
+	deepStrictEqual(await new SymmetricCryptor({ id: "2025", key: "<PassWord987654>!!" }).decrypt(reencrypted), sample1String);
+	await cryptorOld.decrypt(reencrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Key Rotation By Trial", { permissions: "none" }, async () => {
+	const cryptorOld = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord123456>!!"
+	});
+	const cryptorNew = new SymmetricCryptor({
+		algorithm: "AES-GCM",
+		key: "<PassWord987654>!!"
+	}, { retiredKeys: ["<PassWord123456>!!"] });
+	const encrypted = await cryptorOld.encrypt(sample1UInt8);
+	deepStrictEqual(await cryptorNew.decrypt(encrypted), sample1UInt8);
+});
+async function streamToBytes(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+function bytesToStream(data: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+	const chunks: Uint8Array[] = [];
+	for (let index = 0; index < data.length; index += chunkSize) {
+		chunks.push(data.slice(index, index + chunkSize));
+	}
+	return ReadableStream.from(chunks);
+}
+Deno.test("Stream Large", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const encrypted = await streamToBytes(bytesToStream(sample2UInt8, 333).pipeThrough(cryptor.encryptStream({ segmentSize: 100 })));
+	deepStrictEqual(await streamToBytes(bytesToStream(encrypted, 77).pipeThrough(cryptor.decryptStream())), sample2UInt8);
+});
+Deno.test("Stream Legacy", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const cryptorLegacy = new SymmetricCryptor("<PassWord123456>!!", { legacy: true });
+	const encryptedLegacy = await streamToBytes(bytesToStream(sample2UInt8, 333).pipeThrough(cryptorLegacy.encryptStream()));
+	deepStrictEqual(await cryptorLegacy.decrypt(encryptedLegacy), sample2UInt8);
+	deepStrictEqual(await streamToBytes(bytesToStream(encryptedLegacy, 77).pipeThrough(cryptorLegacy.decryptStream())), sample2UInt8);
+	// Stream framing is treated as the legacy cipher text, which is not able to decrypt.
+	const encrypted = await streamToBytes(bytesToStream(sample2UInt8, 333).pipeThrough(cryptor.encryptStream()));
+	notDeepStrictEqual(await cryptorLegacy.decrypt(encrypted).catch(() => undefined), sample2UInt8);
+	notDeepStrictEqual(await streamToBytes(bytesToStream(encrypted, 77).pipeThrough(cryptorLegacy.decryptStream())).catch(() => undefined), sample2UInt8);
+});
+Deno.test("Stream Empty", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const encrypted = await streamToBytes(bytesToStream(new Uint8Array(0), 1).pipeThrough(cryptor.encryptStream()));
+	deepStrictEqual(await streamToBytes(bytesToStream(encrypted, 50).pipeThrough(cryptor.decryptStream())), new Uint8Array(0));
+});
+Deno.test("Stream Truncate", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	const encrypted = await streamToBytes(bytesToStream(sample2UInt8, 1000).pipeThrough(cryptor.encryptStream({ segmentSize: 1000 })));
+	await streamToBytes(bytesToStream(encrypted.slice(0, encrypted.length - 1016), 1000).pipeThrough(cryptor.decryptStream())).then(() => {
+		throw new Error(`Expect reject.`);
+	}, () => { });
+});
+Deno.test("Compression", { permissions: "none" }, async () => {
+	const data = sample1String.repeat(50);
+	const cryptorPlain = new SymmetricCryptor("<PassWord123456>!!");
+	const cryptorGzip = new SymmetricCryptor("<PassWord123456>!!", { compression: "gzip" });
+	const encryptedPlain = await cryptorPlain.encrypt(data);
+	const encryptedGzip = await cryptorGzip.encrypt(data);
+	deepStrictEqual(encryptedGzip.length < encryptedPlain.length, true);
+	deepStrictEqual(await cryptorGzip.decrypt(encryptedGzip), data);
+	deepStrictEqual(await cryptorPlain.decrypt(encryptedGzip), data);
+	deepStrictEqual((await cryptorGzip.encrypt(data, { compression: false })).length, encryptedPlain.length);
+	deepStrictEqual(await cryptorGzip.decrypt(await cryptorGzip.encrypt(sample1String)), sample1String);
+	const cryptorCustom = new SymmetricCryptor("<PassWord123456>!!", {
+		compression: {
+			id: "repeat-50",
+			compress: (value: Uint8Array) => value.slice(0, value.length / 50),
+			decompress: (value: Uint8Array) => Uint8Array.from(Array.from({ length: 50 }, () => [...value]).flat())
+		}
+	});
+	const encryptedCustom = await cryptorCustom.encrypt(data);
+	deepStrictEqual(await cryptorCustom.decrypt(encryptedCustom), data);
+	await cryptorGzip.decrypt(encryptedCustom).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+	});
+	deepStrictEqual(await cryptorGzip.decryptJSON(await cryptorGzip.encryptJSON({ data })), { data });
+});
+Deno.test("Padding", { permissions: "none" }, async () => {
+	const values = ["no", "yes", "maybe", "undetermined"];
+	for (const padding of ["padme", "power-of-two", { buckets: [32, 16] }] as const) {
+		const cryptor = new SymmetricCryptor("<PassWord123456>!!", { padding });
+		const encrypted = await Promise.all(values.map((value) => cryptor.encrypt(value)));
+		deepStrictEqual(await Promise.all(encrypted.map((value) => cryptor.decrypt(value))), values);
+		deepStrictEqual(new Set(encrypted.map((value) => value.length)).size < values.length, true);
+		deepStrictEqual(await cryptor.decrypt(await cryptor.encrypt("")), "");
+		deepStrictEqual(await cryptor.decrypt(await cryptor.encrypt(sample2UInt8)), sample2UInt8);
+		deepStrictEqual(await cryptor.decrypt(await cryptor.encryptDeterministic(values[0])), values[0]);
+	}
+	const cryptorBuckets = new SymmetricCryptor("<PassWord123456>!!", { padding: { buckets: [16] } });
+	deepStrictEqual(new Set(await Promise.all(values.map(async (value) => (await cryptorBuckets.encrypt(value)).length))).size, 1);
+	const cryptorPadded = new SymmetricCryptor("<PassWord123456>!!", {
+		compression: "gzip",
+		padding: "padme"
+	});
+	const data = sample1String.repeat(50);
+	deepStrictEqual(await new SymmetricCryptor("<PassWord123456>!!").decrypt(await cryptorPadded.encrypt(data)), data);
+});
+Deno.test("Token", { permissions: "none" }, async () => {
+	const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+	let now = Date.UTC(2020, 0, 1);
+	const clock = () => now;
+	const token = await cryptor.encryptToken(sample1String, { clock });
+	deepStrictEqual(await cryptor.decryptToken(token, { clock, ttl: 3600 }), sample1String);
+	now += 3600 * 1000;
+	deepStrictEqual(await cryptor.decryptToken(token, { clock, ttl: 3600 }), sample1String);
+	now += 1000;
+	await cryptor.decryptToken(token, { clock, ttl: 3600 }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorTokenTimestampError, true);
+		deepStrictEqual((error as SymmetricCryptorTokenTimestampError).issuedAt, new Date(Date.UTC(2020, 0, 1)));
+	});
+	await cryptor.decryptToken(token, { clock, clockSkew: 120, ttl: 3600 }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorTokenTimestampError, true);
+	});
+	deepStrictEqual(await cryptor.decryptToken(token, { clock }), sample1String);
+	const tokenFuture = await cryptor.encryptToken(sample1String, { clock: () => now + 120 * 1000 });
+	await cryptor.decryptToken(tokenFuture, { clock }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorTokenTimestampError, true);
+	});
+	// Token and cipher text are not interchangeable, even when the data is look like a token payload.
+	await cryptor.decryptToken(await cryptor.encrypt(sample1String), { clock }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+	const payloadForged = new Uint8Array(9 + 5);
+	payloadForged[0] = 0x80;
+	new DataView(payloadForged.buffer).setBigUint64(1, BigInt(now / 1000));
+	payloadForged.set(new TextEncoder().encode("admin"), 9);
+	await cryptor.decryptToken(Buffer.from(await cryptor.encrypt(payloadForged)).toString("base64"), { clock }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+	await cryptor.decrypt(token).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+	deepStrictEqual(await cryptor.decryptToken(await cryptor.encryptToken(sample1String, { additionalData: "user" }), { additionalData: "user" }), sample1String);
+	await new SymmetricCryptor({
+		algorithm: "AES-CBC",
+		key: "<PassWord123456>!!"
+	}, { cipherTextFormat: "openssl" }).encryptToken(sample1String).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorConfigError, true);
+	});
+	// Test vector from the Fernet specification.
+	const cryptorFernet = new SymmetricCryptor({
+		kdf: "none",
+		key: Uint8Array.from(atob("cw_0x689RpI-jtRR7oE8h_eQsKImvJapLeSbXpwF4e4=".replaceAll("-", "+").replaceAll("_", "/")), (character) => character.charCodeAt(0))
+	});
+	const clockFernet = () => Date.parse("1985-10-26T01:20:01-07:00");
+	deepStrictEqual(await cryptorFernet.decryptToken("gAAAAAAdwJ6wAAECAwQFBgcICQoLDA0ODy021cpGVWKZ_eEwCGM4BLLF_5CV9dOPmrhuVUPgJobwOz7JcbmrR64jVmpU4IwqDA==", {
+		clock: clockFernet,
+		format: "fernet",
+		ttl: 60
+	}), "hello");
+	const tokenFernet = await cryptorFernet.encryptToken("hello", {
+		clock: clockFernet,
+		format: "fernet"
+	});
+	// Invalid test vectors from the Fernet specification.
+	for (const [tokenInvalid, time, errorClass] of [
+		["gAAAAAAdwJ6xAAECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPAl1-szkFVzXTuGb4hR8AKtwcaX1YdykQUFBQUFBQUFBQQ==", "1985-10-26T01:20:01-07:00", SymmetricCryptorAuthenticationError],
+		["gAAAAAAdwJ6xAAECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPA==", "1985-10-26T01:20:01-07:00", SymmetricCryptorFormatError],
+		["%%%%%%%%%%%%%AECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPAl1-szkFVzXTuGb4hR8AKtwcaX1YdykRtfsH-p1YsUD2Q==", "1985-10-26T01:20:01-07:00", SymmetricCryptorFormatError],
+		["gAAAAAAdwJ6xAAECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPOm73QeoCk9uGib28Xe5vz6oxq5nmxbx_v7mrfyudzUm", "1985-10-26T01:20:01-07:00", SymmetricCryptorFormatError],
+		["gAAAAAAdwJ6xAAECAwQFBgcICQoLDA0ODz4LEpdELGQAad7aNEHbf-JkLPIpuiYRLQ3RtXatOYREu2FWke6CnJNYIbkuKNqOhw==", "1985-10-26T01:20:01-07:00", SymmetricCryptorAuthenticationError],
+		["gAAAAAAdwStRAAECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPAnja1xKYyhd-Y6mSkTOyTGJmw2Xc2a6kBd-iX9b_qXQcw==", "1985-10-26T01:20:01-07:00", SymmetricCryptorTokenTimestampError],
+		["gAAAAAAdwJ6xAAECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPAl1-szkFVzXTuGb4hR8AKtwcaX1YdykRtfsH-p1YsUD2Q==", "1985-10-26T01:21:31-07:00", SymmetricCryptorTokenTimestampError],
+		["gAAAAAAdwJ6xBQECAwQFBgcICQoLDA0OD3HkMATM5lFqGaerZ-fWPAkLhFLHpGtDBRLRTZeUfWgHSv49TF2AUEZ1TIvcZjK1zQ==", "1985-10-26T01:20:01-07:00", SymmetricCryptorAuthenticationError]
+	] as const) {
+		await cryptorFernet.decryptToken(tokenInvalid, {
+			clock: () => Date.parse(time),
+			format: "fernet",
+			ttl: 60
+		}).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof errorClass, true);
+		});
+	}
+	deepStrictEqual(tokenFernet.startsWith("gAAAAAAdwJ6x"), true);
+	deepStrictEqual(await cryptorFernet.decryptToken(tokenFernet, { format: "fernet" }), "hello");
+	await new SymmetricCryptor({
+		kdf: "none",
+		key: new Uint8Array(32)
+	}).decryptToken(tokenFernet, { format: "fernet" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+});
+Deno.test("Threshold", { permissions: "none" }, async () => {
+	const keys = ["a", "b", "c"].map((id) => ({
+		algorithm: "AES-GCM",
+		id,
+		key: crypto.getRandomValues(new Uint8Array(32)),
+		kdf: "none"
+	}) as const);
+	const cryptor = new SymmetricCryptor(keys, { threshold: 2 });
+	const encrypted = await cryptor.encrypt(sample1String);
+	deepStrictEqual(await cryptor.decrypt(encrypted), sample1String);
+	deepStrictEqual(await new SymmetricCryptor([keys[2], keys[0]]).decrypt(encrypted), sample1String);
+	deepStrictEqual(await new SymmetricCryptor(keys[1], { retiredKeys: [keys[2]] }).decrypt(encrypted), sample1String);
+	// Tampered share indexes (i.e.: duplicate, zero) are rejected before the authentication.
+	const encryptedRaw = Buffer.from(encrypted, "base64");
+	const shareSecondOffset = 12 + encryptedRaw.readUInt32BE(8);
+	for (const x of [encryptedRaw[7], 0]) {
+		const tampered = Uint8Array.from(encryptedRaw);
+		tampered[shareSecondOffset] = x;
+		await cryptor.decrypt(tampered).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof SymmetricCryptorFormatError, true);
+		});
+	}
+	const keysAnonymous = keys.map(({ key }) => ({ algorithm: "AES-GCM", key, kdf: "none" }) as const);
+	deepStrictEqual(await new SymmetricCryptor([keysAnonymous[2], keysAnonymous[1]]).decrypt(await new SymmetricCryptor(keysAnonymous, { threshold: 2 }).encrypt(sample1String)), sample1String);
+	await new SymmetricCryptor(keys[1]).decrypt(encrypted).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorKeyError, true);
+	});
+	await new SymmetricCryptor(keys, { threshold: 2 }).decrypt(encrypted, { additionalData: "other" }).then(() => {
+		throw new Error(`Expect reject.`);
+	}, (error) => {
+		deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+	});
+	const encryptedStream = await streamToBytes(bytesToStream(sample2UInt8, 7).pipeThrough(cryptor.encryptStream()));
+	deepStrictEqual(await streamToBytes(bytesToStream(encryptedStream, 5).pipeThrough(new SymmetricCryptor([keys[0], keys[2]]).decryptStream())), sample2UInt8);
+	for (const threshold of [0, 4, 1.5]) {
+		deepStrictEqual((() => {
+			try {
+				new SymmetricCryptor(keys, { threshold });
+				return false;
+			} catch {
+				return true;
+			}
+		})(), true);
+	}
+	deepStrictEqual((() => {
+		try {
+			new SymmetricCryptor(keys, {
+				envelope: true,
+				threshold: 2
+			});
+			return false;
+		} catch (error) {
+			return (error instanceof SymmetricCryptorConfigError);
+		}
+	})(), true);
+});
+Deno.test("Full File Stream", {
+	ignore,
+	permissions: {
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+		const filePlain = `${tempdir}/plain.txt`;
+		const fileEncrypted = `${tempdir}/encrypted.bin`;
+		const fileDecrypted = `${tempdir}/decrypted.txt`;
+		await Deno.writeTextFile(filePlain, sample2String);
+		const progresses: number[] = [];
+		await cryptor.encryptFile(filePlain, fileEncrypted, {
+			onProgress({ bytesProcessed }) {
+				progresses.push(bytesProcessed);
+			},
+			segmentSize: 1024
+		});
+		deepStrictEqual(progresses.at(-1), sample2UInt8.length);
+		await cryptor.decryptFile(fileEncrypted, fileDecrypted);
+		deepStrictEqual(await Deno.readTextFile(fileDecrypted), sample2String);
+		await cryptor.encryptFileInPlace(filePlain);
+		deepStrictEqual(await cryptor.readEncryptedTextFile(filePlain), sample2String);
+		await cryptor.decryptFileInPlace(filePlain);
+		deepStrictEqual(await Deno.readTextFile(filePlain), sample2String);
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+	}
+});
+Deno.test("Full File Atomic", {
+	ignore,
+	permissions: {
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+		const file = `${tempdir}/plain.txt`;
+		await Deno.writeTextFile(file, sample2String);
+		const mtime = new Date("2020-01-01T00:00:00Z");
+		await Deno.utime(file, mtime, mtime);
+		if (Deno.build.os !== "windows") {
+			await Deno.chmod(file, 0o640);
+		}
+		await cryptor.encryptFileInPlace(file, { verify: true });
+		const fileInfo = await Deno.stat(file);
+		deepStrictEqual(fileInfo.mtime?.getTime(), mtime.getTime());
+		if (Deno.build.os !== "windows") {
+			deepStrictEqual(fileInfo.mode! & 0o777, 0o640);
+		}
+		deepStrictEqual(await cryptor.readEncryptedTextFile(file), sample2String);
+		await cryptor.writeEncryptedTextFile(file, sample1String, { verify: true });
+		deepStrictEqual(await cryptor.readEncryptedTextFile(file), sample1String);
+		await cryptor.writeEncryptedTextFile(file, sample1String, { createNew: true }).then(() => {
+			throw new Error(`Expect reject.`);
+		}, () => { });
+		deepStrictEqual((await Array.fromAsync(Deno.readDir(tempdir))).length, 1);
+		// New file take the default permission mode, same as the plain write.
+		const filePlainNew = `${tempdir}/plain-new.txt`;
+		const fileEncryptedNew = `${tempdir}/encrypted-new.txt`;
+		await Deno.writeTextFile(filePlainNew, sample1String);
+		await cryptor.writeEncryptedTextFile(fileEncryptedNew, sample1String, { createNew: true });
+		deepStrictEqual((await Deno.stat(fileEncryptedNew)).mode, (await Deno.stat(filePlainNew)).mode);
+		// File which is created after the check is not replace by the create new.
+		const cryptorRace = new SymmetricCryptor("<PassWord123456>!!", {
+			fileSystem: {
+				...fileSystemDeno,
+				lstat(path: string): Promise<undefined> {
+					return Deno.writeTextFile(path, sample2String).then(() => undefined);
+				}
+			}
+		});
+		const fileRace = `${tempdir}/race.txt`;
+		await cryptorRace.writeEncryptedTextFile(fileRace, sample1String, { createNew: true }).then(() => {
+			throw new Error(`Expect reject.`);
+		}, () => { });
+		deepStrictEqual(await Deno.readTextFile(fileRace), sample2String);
+		// Claimed new file is removed when the write is fail.
+		await new SymmetricCryptor("<PassWord123456>!!", {
+			fileSystem: {
+				...fileSystemDeno,
+				writeFile(): Promise<void> {
+					return Promise.reject(new Error(`Write is fail!`));
+				}
+			}
+		}).writeEncryptedTextFile(`${tempdir}/fail.txt`, sample1String, { createNew: true }).then(() => {
+			throw new Error(`Expect reject.`);
+		}, () => { });
+		deepStrictEqual((await Array.fromAsync(Deno.readDir(tempdir))).map(({ name }) => name).sort(), ["encrypted-new.txt", "plain-new.txt", "plain.txt", "race.txt"]);
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+	}
+});
+Deno.test("Full File Env Config", {
+	ignore,
+	permissions: {
+		env: true,
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+		const fileEnv = `${tempdir}/.env`;
+		await Deno.writeTextFile(fileEnv, `# Secrets\nexport SYMC_TEST_A="plain # value"\nSYMC_TEST_B=plain2 # comment\n\nSYMC_TEST_C='c'\n`);
+		deepStrictEqual(await cryptor.readEncryptedEnvFile(fileEnv), {
+			SYMC_TEST_A: "plain # value",
+			SYMC_TEST_B: "plain2",
+			SYMC_TEST_C: "c"
+		});
+		await cryptor.writeEncryptedEnvFile(fileEnv, {
+			SYMC_TEST_A: "a\n\"a\"",
+			SYMC_TEST_B: sample1String,
+			SYMC_TEST_D: "d"
+		}, { verify: true });
+		const textEnv = await Deno.readTextFile(fileEnv);
+		deepStrictEqual(textEnv.startsWith("# Secrets\nexport SYMC_TEST_A=enc:"), true);
+		deepStrictEqual(textEnv.includes(sample1String), false);
+		deepStrictEqual(textEnv.includes("SYMC_TEST_C"), false);
+		deepStrictEqual(textEnv.endsWith("\n"), true);
+		await cryptor.writeEncryptedEnvFile(fileEnv, {
+			SYMC_TEST_A: "a\n\"a\"",
+			SYMC_TEST_B: sample1String,
+			SYMC_TEST_D: "d2"
+		});
+		const textEnvUpdated = await Deno.readTextFile(fileEnv);
+		deepStrictEqual(textEnvUpdated.split("\n").slice(0, 3), textEnv.split("\n").slice(0, 3));
+		deepStrictEqual(textEnvUpdated === textEnv, false);
+		Deno.env.set("SYMC_TEST_D", "existing");
+		deepStrictEqual(await cryptor.readEncryptedEnvFile(fileEnv, { load: true }), {
+			SYMC_TEST_A: "a\n\"a\"",
+			SYMC_TEST_B: sample1String,
+			SYMC_TEST_D: "d2"
+		});
+		deepStrictEqual(Deno.env.get("SYMC_TEST_A"), "a\n\"a\"");
+		deepStrictEqual(Deno.env.get("SYMC_TEST_D"), "existing");
+		const fileConfig = `${tempdir}/config.json`;
+		const config = {
+			database: {
+				password: sample1String,
+				port: 5432
+			},
+			hosts: ["a.example.com", "b.example.com"],
+			debug: false
+		};
+		await cryptor.writeEncryptedConfigFile(fileConfig, config, { verify: true });
+		const textConfig = await Deno.readTextFile(fileConfig);
+		deepStrictEqual(textConfig.includes(sample1String), false);
+		deepStrictEqual(JSON.parse(textConfig).database.port, 5432);
+		deepStrictEqual(await cryptor.readEncryptedConfigFile(fileConfig), config);
+		await cryptor.writeEncryptedConfigFile(fileConfig, { ...config, debug: true });
+		deepStrictEqual(JSON.parse(await Deno.readTextFile(fileConfig)).database.password, JSON.parse(textConfig).database.password);
+		// Encrypted value is not able to move to another name.
+		const linesEnv = (await Deno.readTextFile(fileEnv)).split("\n");
+		const indexA = linesEnv.findIndex((line) => line.startsWith("export SYMC_TEST_A="));
+		const indexB = linesEnv.findIndex((line) => line.startsWith("SYMC_TEST_B="));
+		linesEnv[indexA] = `export SYMC_TEST_A=${linesEnv[indexB].slice("SYMC_TEST_B=".length)}`;
+		await Deno.writeTextFile(fileEnv, linesEnv.join("\n"));
+		await cryptor.readEncryptedEnvFile(fileEnv).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+		});
+		const configSwapped = JSON.parse(await Deno.readTextFile(fileConfig));
+		configSwapped.hosts[0] = configSwapped.database.password;
+		await Deno.writeTextFile(fileConfig, JSON.stringify(configSwapped));
+		await cryptor.readEncryptedConfigFile(fileConfig).then(() => {
+			throw new Error(`Expect reject.`);
+		}, (error) => {
+			deepStrictEqual(error instanceof SymmetricCryptorAuthenticationError, true);
+		});
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+		for (const key of ["SYMC_TEST_A", "SYMC_TEST_B", "SYMC_TEST_D"]) {
+			Deno.env.delete(key);
+		}
+	}
+});
+Deno.test("Full File Directory", {
+	ignore,
+	permissions: {
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const cryptor = new SymmetricCryptor("<PassWord123456>!!");
+		await Deno.mkdir(`${tempdir}/a/b`, { recursive: true });
+		await Deno.mkdir(`${tempdir}/node_modules`);
+		await Deno.writeTextFile(`${tempdir}/a/x.txt`, sample1String);
+		await Deno.writeTextFile(`${tempdir}/a/b/y.txt`, sample2String);
+		await Deno.writeTextFile(`${tempdir}/a/note.log`, sample1String);
+		await Deno.writeTextFile(`${tempdir}/node_modules/z.txt`, sample1String);
+		await new SymmetricCryptor("<OtherPassWord>").writeEncryptedTextFile(`${tempdir}/other.txt`, sample1String);
+		const reportEncrypt = await cryptor.encryptDirectory(tempdir, {
+			concurrency: 2,
+			exclude: ["node_modules"],
+			include: ["**/*.txt"],
+			suffix: ".enc"
+		});
+		deepStrictEqual(reportEncrypt, {
+			failures: [],
+			skips: ["other.txt"],
+			successes: [
+				{ destinationPath: "a/b/y.txt.enc", sourcePath: "a/b/y.txt" },
+				{ destinationPath: "a/x.txt.enc", sourcePath: "a/x.txt" }
+			]
+		});
+		deepStrictEqual(await cryptor.readEncryptedTextFile(`${tempdir}/a/b/y.txt.enc`), sample2String);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/a/note.log`), sample1String);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/node_modules/z.txt`), sample1String);
+		const reportDecrypt = await cryptor.decryptDirectory(tempdir, { suffix: ".enc" });
+		deepStrictEqual(reportDecrypt.failures.map(({ sourcePath }) => sourcePath), ["other.txt"]);
+		deepStrictEqual(reportDecrypt.successes.map(({ destinationPath }) => destinationPath), ["a/b/y.txt", "a/x.txt"]);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/a/x.txt`), sample1String);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/a/b/y.txt`), sample2String);
+		// Source file is untouched when unable to write the destination.
+		const reportEncryptFail = await new SymmetricCryptor("<PassWord123456>!!", {
+			fileSystem: {
+				...fileSystemNode,
+				rename(oldPath: string, newPath: string): Promise<void> {
+					return newPath.endsWith(".enc") ? Promise.reject(new Error(`Rename is fail!`)) : fileSystemNode.rename(oldPath, newPath);
+				}
+			}
+		}).encryptDirectory(`${tempdir}/a`, {
+			include: ["x.txt"],
+			suffix: ".enc"
+		});
+		deepStrictEqual(reportEncryptFail.failures.map(({ sourcePath }) => sourcePath), ["x.txt"]);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/a/x.txt`), sample1String);
+		deepStrictEqual((await Array.fromAsync(Deno.readDir(`${tempdir}/a`))).map(({ name }) => name).sort(), ["b", "note.log", "x.txt"]);
+		// Exist destination is not replaced.
+		await Deno.writeTextFile(`${tempdir}/a/x.txt.enc`, sample2String);
+		const reportEncryptExist = await cryptor.encryptDirectory(`${tempdir}/a`, {
+			include: ["x.txt"],
+			suffix: ".enc"
+		});
+		deepStrictEqual(reportEncryptExist.failures.map(({ sourcePath }) => sourcePath), ["x.txt"]);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/a/x.txt`), sample1String);
+		deepStrictEqual(await Deno.readTextFile(`${tempdir}/a/x.txt.enc`), sample2String);
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+	}
+});
+Deno.test("Full File Directory Formats", {
+	ignore,
+	permissions: {
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const cryptors: Record<string, SymmetricCryptor> = {
+			envelope: new SymmetricCryptor("<PassWord123456>!!", { envelope: true }),
+			jwe: new SymmetricCryptor({
+				key: "<PassWord123456>!!",
+				kdf: { name: "PBKDF2", iterations: 10000 }
+			}, { cipherTextFormat: "jwe" }),
+			openssl: new SymmetricCryptor({
+				algorithm: "AES-CBC",
+				key: "<PassWord123456>!!",
+				kdf: { name: "PBKDF2", hash: "SHA-256", iterations: 10000 }
+			}, { cipherTextFormat: "openssl" }),
+			threshold: new SymmetricCryptor([
+				{ key: "<PassWord12345>1", kdf: "none" },
+				{ key: "<PassWord12345>2", kdf: "none" },
+				{ key: "<PassWord12345>3", kdf: "none" }
+			], { threshold: 2 })
+		};
+		for (const [format, cryptor] of Object.entries(cryptors)) {
+			await cryptor.writeEncryptedTextFile(`${tempdir}/${format}.txt`, sample1String);
+		}
+		// Encrypted files of any format are not encrypt again.
+		deepStrictEqual(await new SymmetricCryptor("<PassWord123456>!!").encryptDirectory(tempdir), {
+			failures: [],
+			skips: ["envelope.txt", "jwe.txt", "openssl.txt", "threshold.txt"],
+			successes: []
+		});
+		for (const [format, cryptor] of Object.entries(cryptors)) {
+			deepStrictEqual(await cryptor.decryptDirectory(tempdir, { include: [`${format}.txt`] }), {
+				failures: [],
+				skips: [],
+				successes: [{ destinationPath: `${format}.txt`, sourcePath: `${format}.txt` }]
+			});
+			deepStrictEqual(await Deno.readTextFile(`${tempdir}/${format}.txt`), sample1String);
+		}
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+	}
+});
+Deno.test("Full File NodeJS File System", {
+	ignore,
+	permissions: {
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const cryptor = new SymmetricCryptor("<PassWord123456>!!", { fileSystem: fileSystemNode });
+		const filePlain = `${tempdir}/plain.txt`;
+		const fileEncrypted = `${tempdir}/encrypted.bin`;
+		const fileDecrypted = `${tempdir}/decrypted.txt`;
+		await Deno.writeTextFile(filePlain, sample2String);
+		await cryptor.encryptFile(filePlain, fileEncrypted, { segmentSize: 1024 });
+		await cryptor.decryptFile(fileEncrypted, fileDecrypted);
+		deepStrictEqual(await Deno.readTextFile(fileDecrypted), sample2String);
+		await cryptor.encryptFileInPlace(filePlain, { verify: true });
+		deepStrictEqual(await cryptor.readEncryptedTextFile(filePlain), sample2String);
+		await cryptor.writeEncryptedTextFile(filePlain, sample1String, { verify: true });
+		deepStrictEqual(await cryptor.readEncryptedTextFile(filePlain), sample1String);
+		deepStrictEqual((await cryptor.decryptDirectory(tempdir)).successes.map(({ sourcePath }) => sourcePath), ["encrypted.bin", "plain.txt"]);
+		deepStrictEqual(await Deno.readTextFile(filePlain), sample1String);
+		deepStrictEqual((await Array.fromAsync(Deno.readDir(tempdir))).length, 3);
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+	}
+});
+Deno.test("Full File Key Provider Keystore", {
+	ignore,
+	permissions: {
+		read: true,
+		write: true
+	}
+}, async () => {
+	const tempdir = await Deno.makeTempDir();
+	try {
+		const keystorePath = `${tempdir}/keystore.json`;
+		await Deno.writeTextFile(keystorePath, JSON.stringify({
+			current: "a",
+			keys: { a: "<PassWord123456>!!" }
+		}));
+		const keystore = new SymmetricCryptorKeyProviderKeystore(keystorePath);
+		const cryptor = new SymmetricCryptor({ key: keystore });
+		const encrypted = await cryptor.encrypt(sample1String);
+		await Deno.writeTextFile(keystorePath, JSON.stringify({
+			current: "b",
+			keys: {
+				a: "<PassWord123456>!!",
+				b: Array.from({ length: 32 }, (_, index) => index.toString(16).padStart(2, "0")).join("")
+			}
+		}));
+		keystore.reload();
+		const encryptedNew = await cryptor.encrypt(sample1String);
+		deepStrictEqual(await cryptor.decrypt(encrypted), sample1String);
+		deepStrictEqual(await cryptor.decrypt(encryptedNew), sample1String);
+		deepStrictEqual(await new SymmetricCryptor({ id: "a", key: "<PassWord123456>!!" }).decrypt(encrypted), sample1String);
+		await new SymmetricCryptor({ id: "a", key: "<PassWord123456>!!" }).decrypt(encryptedNew).then(() => {
+			throw new Error(`Expect reject.`);
+		}, () => { });
+	} finally {
+		await Deno.remove(tempdir, { recursive: true });
+	}
+});
@@ -1,15 +1,80 @@
 export {
+	SymmetricCryptorAuthenticationError,
 	SymmetricCryptorBasic,
+	SymmetricCryptorConfigError,
+	SymmetricCryptorError,
+	SymmetricCryptorFormatError,
+	SymmetricCryptorKeyError,
+	SymmetricCryptorTokenTimestampError,
+	SymmetricCryptorUnsupportedVersionError,
+	type SymmetricCryptorAdditionalData,
 	type SymmetricCryptorAlgorithm,
+	type SymmetricCryptorBatchDecryptOptions,
+	type SymmetricCryptorBatchOptions,
+	type SymmetricCryptorBatchResult,
+	type SymmetricCryptorBatchResultFulfilled,
+	type SymmetricCryptorBatchResultRejected,
 	type SymmetricCryptorCipherTextCoderDefault,
 	type SymmetricCryptorCipherTextCoderOptions,
 	type SymmetricCryptorCipherTextDecoder,
 	type SymmetricCryptorCipherTextEncoder,
+	type SymmetricCryptorCipherTextFormat,
+	type SymmetricCryptorCompression,
+	type SymmetricCryptorCompressionCustom,
+	type SymmetricCryptorCompressionDefault,
+	type SymmetricCryptorCryptOptions,
+	type SymmetricCryptorErrorOptions,
+	type SymmetricCryptorFieldPath,
+	type SymmetricCryptorKDFCustomDerive,
+	type SymmetricCryptorKDFCustomOptions,
+	type SymmetricCryptorKDFDefault,
+	type SymmetricCryptorKDFHash,
+	type SymmetricCryptorKDFPBKDF2Options,
+	type SymmetricCryptorKeyFormat,
 	type SymmetricCryptorKeyInput,
+	type SymmetricCryptorKeyLength,
+	type SymmetricCryptorKeyProvider,
 	type SymmetricCryptorKeyType,
-	type SymmetricCryptorOptions
+	type SymmetricCryptorOptions,
+	type SymmetricCryptorPadding,
+	type SymmetricCryptorPaddingBuckets,
+	type SymmetricCryptorPaddingDefault,
+	type SymmetricCryptorStreamOptions,
+	type SymmetricCryptorTokenDecryptOptions,
+	type SymmetricCryptorTokenFormat,
+	type SymmetricCryptorTokenOptions,
+	type SymmetricCryptorTokenTimestampErrorOptions
 } from "./basic.ts";
 export {
 	SymmetricCryptor,
-	SymmetricCryptor as default
+	SymmetricCryptor as default,
+	SymmetricCryptorKeyProviderEnvironment,
+	SymmetricCryptorKeyProviderKeystore,
+	type SymmetricCryptorConfigFileFormat,
+	type SymmetricCryptorDirectoryDecryptOptions,
+	type SymmetricCryptorDirectoryEncryptOptions,
+	type SymmetricCryptorDirectoryOptions,
+	type SymmetricCryptorDirectoryReport,
+	type SymmetricCryptorDirectoryReportFailure,
+	type SymmetricCryptorDirectoryReportSuccess,
+	type SymmetricCryptorFileAtomicOptions,
+	type SymmetricCryptorFileDecryptOptions,
+	type SymmetricCryptorFileEncryptInPlaceOptions,
+	type SymmetricCryptorFileEncryptOptions,
+	type SymmetricCryptorFileProgress,
+	type SymmetricCryptorFileSystem,
+	type SymmetricCryptorFileSystemDirectoryEntry,
+	type SymmetricCryptorFileSystemFileInfo,
+	type SymmetricCryptorFileSystemMakeTempFileOptions,
+	type SymmetricCryptorFileSystemReadFileOptions,
+	type SymmetricCryptorFileSystemWriteFileOptions,
+	type SymmetricCryptorKeyEncoding,
+	type SymmetricCryptorKeyProviderEnvironmentOptions,
+	type SymmetricCryptorKeyProviderKeystoreOptions,
+	type SymmetricCryptorReadConfigFileOptions,
+	type SymmetricCryptorReadEnvFileOptions,
+	type SymmetricCryptorReadFileOptions,
+	type SymmetricCryptorStandardOptions,
+	type SymmetricCryptorWriteConfigFileOptions,
+	type SymmetricCryptorWriteFileOptions
 } from "./standard.ts";
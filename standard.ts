@@ -1,4 +1,519 @@
-import { SymmetricCryptorBasic } from "./basic.ts";
+import { Buffer } from "node:buffer";
+import {
+	dirname,
+	join as joinPath
+} from "node:path";
+import { env } from "node:process";
+import { fileURLToPath } from "node:url";
+import {
+	mapConcurrent,
+	resolveConcurrency
+} from "./_concurrency.ts";
+import {
+	createDotEnvEntry,
+	type DotEnvLine,
+	parseDotEnv,
+	stringifyDotEnv
+} from "./_dotenv.ts";
+import { SymmetricCryptorKeyError } from "./_error.ts";
+import {
+	resolveFileSystemDefault,
+	type SymmetricCryptorFileSystem,
+	type SymmetricCryptorFileSystemFileInfo
+} from "./_fs.ts";
+import { globToRegExp } from "./_glob.ts";
+import { isStartWithMagic } from "./_header.ts";
+import {
+	cipherTextMagicLengthMaximum,
+	detectCipherTextFormat,
+	jweMagic
+} from "./_interop.ts";
+import {
+	getValueAtPath,
+	mapStringLeaves
+} from "./_json.ts";
+import {
+	SymmetricCryptorBasic,
+	type SymmetricCryptorCryptOptions,
+	type SymmetricCryptorKeyInput,
+	type SymmetricCryptorKeyProvider,
+	type SymmetricCryptorKeyType,
+	type SymmetricCryptorOptions,
+	type SymmetricCryptorStreamOptions
+} from "./basic.ts";
+export type {
+	SymmetricCryptorFileSystem,
+	SymmetricCryptorFileSystemDirectoryEntry,
+	SymmetricCryptorFileSystemFileInfo,
+	SymmetricCryptorFileSystemMakeTempFileOptions,
+	SymmetricCryptorFileSystemReadFileOptions,
+	SymmetricCryptorFileSystemWriteFileOptions
+} from "./_fs.ts";
+export interface SymmetricCryptorStandardOptions extends SymmetricCryptorOptions {
+	/**
+	 * Adapter of the file system, default to use the Deno APIs when available, otherwise use the NodeJS APIs (also available in Bun).
+	 */
+	fileSystem?: SymmetricCryptorFileSystem;
+}
+/**
+ * Progress of the file crypto.
+ */
+export interface SymmetricCryptorFileProgress {
+	/**
+	 * Bytes of the source file which is processed.
+	 */
+	bytesProcessed: number;
+	/**
+	 * Bytes of the source file.
+	 */
+	bytesTotal: number;
+}
+export interface SymmetricCryptorFileDecryptOptions extends SymmetricCryptorCryptOptions {
+	/**
+	 * Callback to report the progress.
+	 * @param {SymmetricCryptorFileProgress} progress Progress.
+	 * @returns {void}
+	 */
+	onProgress?: (progress: SymmetricCryptorFileProgress) => void;
+}
+export interface SymmetricCryptorFileEncryptOptions extends SymmetricCryptorFileDecryptOptions, SymmetricCryptorStreamOptions {
+}
+export interface SymmetricCryptorFileAtomicOptions {
+	/**
+	 * Whether to verify the written temporary file is able to decrypt back to the original data, before replace the file.
+	 * @default {false}
+	 */
+	verify?: boolean;
+}
+export interface SymmetricCryptorFileEncryptInPlaceOptions extends SymmetricCryptorFileEncryptOptions, SymmetricCryptorFileAtomicOptions {
+}
+export interface SymmetricCryptorReadFileOptions {
+	/**
+	 * Signal to abort the read.
+	 */
+	signal?: AbortSignal;
+}
+export interface SymmetricCryptorWriteFileOptions extends SymmetricCryptorFileAtomicOptions {
+	/**
+	 * Whether to create the file if not exist.
+	 * @default {true}
+	 */
+	create?: boolean;
+	/**
+	 * Whether to create the file exclusively, and throw error if the file is exist; Parameter `create` is ignored when this is `true`.
+	 * @default {false}
+	 */
+	createNew?: boolean;
+	/**
+	 * Permission mode of the file, default to preserve the mode of the exist file, or the default permission mode of the platform (i.e.: apply the umask) for the new file.
+	 */
+	mode?: number;
+	/**
+	 * Signal to abort the write.
+	 */
+	signal?: AbortSignal;
+}
+export interface SymmetricCryptorReadEnvFileOptions extends SymmetricCryptorReadFileOptions {
+	/**
+	 * Whether to load the decrypted variables into the environment variables (i.e.: `process.env`, which is also `Deno.env` in Deno).
+	 * @default {false}
+	 */
+	load?: boolean;
+	/**
+	 * Whether to override the environment variables which already exist, only apply when the property {@linkcode load} is `true`.
+	 * @default {false}
+	 */
+	override?: boolean;
+}
+/**
+ * Format of the config file, to support the formats other than JSON (e.g.: YAML, TOML) with the external library.
+ */
+export interface SymmetricCryptorConfigFileFormat {
+	/**
+	 * Parse the text of the config file.
+	 * @param {string} text Text of the config file.
+	 * @returns {unknown} Config.
+	 */
+	parse(text: string): unknown;
+	/**
+	 * Stringify the config to the text of the config file.
+	 * @param {unknown} value Config.
+	 * @returns {string} Text of the config file.
+	 */
+	stringify(value: unknown): string;
+}
+export interface SymmetricCryptorReadConfigFileOptions extends SymmetricCryptorReadFileOptions {
+	/**
+	 * Format of the config file.
+	 * @default {JSON}
+	 */
+	format?: SymmetricCryptorConfigFileFormat;
+}
+export interface SymmetricCryptorWriteConfigFileOptions extends SymmetricCryptorWriteFileOptions {
+	/**
+	 * Format of the config file.
+	 * @default {JSON}
+	 */
+	format?: SymmetricCryptorConfigFileFormat;
+}
+export interface SymmetricCryptorDirectoryOptions {
+	/**
+	 * Maximum number of the files to process at the same time.
+	 * @default {4}
+	 */
+	concurrency?: number;
+	/**
+	 * Glob patterns of the files and the directories to exclude, match against the POSIX style path relative to the directory.
+	 * @default {[]}
+	 */
+	exclude?: readonly string[];
+	/**
+	 * Glob patterns of the files to include, match against the POSIX style path relative to the directory.
+	 * @default {["**"]}
+	 */
+	include?: readonly string[];
+	/**
+	 * Suffix of the encrypted file name (e.g.: `".enc"`). When defined, append to the file name on encrypt, and remove from the file name on decrypt.
+	 */
+	suffix?: string;
+}
+export interface SymmetricCryptorDirectoryDecryptOptions extends SymmetricCryptorCryptOptions, SymmetricCryptorDirectoryOptions {
+}
+export interface SymmetricCryptorDirectoryEncryptOptions extends SymmetricCryptorStreamOptions, SymmetricCryptorFileAtomicOptions, SymmetricCryptorDirectoryOptions {
+}
+export interface SymmetricCryptorDirectoryReportFailure {
+	/**
+	 * Error of the file.
+	 */
+	error: unknown;
+	/**
+	 * Path of the file, relative to the directory.
+	 */
+	sourcePath: string;
+}
+export interface SymmetricCryptorDirectoryReportSuccess {
+	/**
+	 * Path of the file after process, relative to the directory; Same as the source path when the file is not renamed.
+	 */
+	destinationPath: string;
+	/**
+	 * Path of the file, relative to the directory.
+	 */
+	sourcePath: string;
+}
+/**
+ * Report of the directory crypto.
+ */
+export interface SymmetricCryptorDirectoryReport {
+	/**
+	 * Files which are fail to process.
+	 */
+	failures: SymmetricCryptorDirectoryReportFailure[];
+	/**
+	 * Paths of the files which are skipped, relative to the directory.
+	 */
+	skips: string[];
+	/**
+	 * Files which are process successfully.
+	 */
+	successes: SymmetricCryptorDirectoryReportSuccess[];
+}
+/**
+ * Prefix of the encrypted value in the dotenv and the config files.
+ */
+const encryptedValuePrefix: string = "enc:";
+// Value is bound to its name as the additional authenticated data, in order to prevent the encrypted value is moved to another name.
+function resolveEnvValueAdditionalData(key: string): string {
+	return `dotenv:${key}`;
+}
+function resolveConfigValueAdditionalData(path: readonly string[]): string {
+	return `config:${JSON.stringify(path)}`;
+}
+const configFileFormatJSON: SymmetricCryptorConfigFileFormat = {
+	parse(text: string): unknown {
+		return JSON.parse(text);
+	},
+	stringify(value: unknown): string {
+		return `${JSON.stringify(value, undefined, "\t")}\n`;
+	}
+};
+function resolvePath(path: string | URL): string {
+	return ((path instanceof URL) ? fileURLToPath(path) : path);
+}
+async function isBytesStreamEqual(a: ReadableStream<Uint8Array>, b: ReadableStream<Uint8Array>): Promise<boolean> {
+	const aReader: ReadableStreamDefaultReader<Uint8Array> = a.getReader();
+	const bReader: ReadableStreamDefaultReader<Uint8Array> = b.getReader();
+	let aPending: Uint8Array = new Uint8Array(0);
+	let bPending: Uint8Array = new Uint8Array(0);
+	let aDone: boolean = false;
+	let bDone: boolean = false;
+	try {
+		while (true) {
+			if (aPending.length === 0 && !aDone) {
+				const result: ReadableStreamReadResult<Uint8Array> = await aReader.read();
+				aDone = result.done;
+				aPending = result.value ?? new Uint8Array(0);
+				continue;
+			}
+			if (bPending.length === 0 && !bDone) {
+				const result: ReadableStreamReadResult<Uint8Array> = await bReader.read();
+				bDone = result.done;
+				bPending = result.value ?? new Uint8Array(0);
+				continue;
+			}
+			if (aPending.length === 0 || bPending.length === 0) {
+				return (aPending.length === 0 && bPending.length === 0);
+			}
+			const length: number = Math.min(aPending.length, bPending.length);
+			for (let index: number = 0; index < length; index += 1) {
+				if (aPending[index] !== bPending[index]) {
+					return false;
+				}
+			}
+			aPending = aPending.subarray(length);
+			bPending = bPending.subarray(length);
+		}
+	} finally {
+		await aReader.cancel().catch((): void => { });
+		await bReader.cancel().catch((): void => { });
+	}
+}
+async function isFileEncrypted(fileSystem: SymmetricCryptorFileSystem, filePath: string): Promise<boolean> {
+	const reader: ReadableStreamDefaultReader<Uint8Array> = (await fileSystem.readFileStream(filePath)).getReader();
+	let head: Uint8Array = new Uint8Array(0);
+	try {
+		while (head.length < cipherTextMagicLengthMaximum) {
+			const result: ReadableStreamReadResult<Uint8Array> = await reader.read();
+			if (result.done) {
+				break;
+			}
+			head = Uint8Array.from([...head, ...result.value.subarray(0, cipherTextMagicLengthMaximum - head.length)]);
+		}
+	} finally {
+		await reader.cancel().catch((): void => { });
+	}
+	// JWE is only detectable with the complete cipher text.
+	return (typeof detectCipherTextFormat(isStartWithMagic(head, jweMagic) ? await fileSystem.readFile(filePath) : head) !== "undefined");
+}
+// Relative paths are in the POSIX style, in order to match with the glob patterns on all platforms.
+async function* walkDirectory(fileSystem: SymmetricCryptorFileSystem, directoryPath: string, directoryRelativePath: string, exclude: readonly RegExp[]): AsyncGenerator<string> {
+	for await (const entry of fileSystem.readDir(joinPath(directoryPath, directoryRelativePath))) {
+		const entryRelativePath: string = (directoryRelativePath.length > 0) ? `${directoryRelativePath}/${entry.name}` : entry.name;
+		if (exclude.some((pattern: RegExp): boolean => {
+			return pattern.test(entryRelativePath);
+		})) {
+			continue;
+		}
+		if (entry.isDirectory) {
+			yield* walkDirectory(fileSystem, directoryPath, entryRelativePath, exclude);
+		} else if (entry.isFile) {
+			yield entryRelativePath;
+		}
+	}
+}
+// Write to a temporary file in the same directory, flush it to the disk, and then rename it over the file (or to the destination, which must be in the same directory).
+async function replaceFileAtomic(fileSystem: SymmetricCryptorFileSystem, filePath: string, options: { destinationPath?: string; mode?: number; preserveTimestamps: boolean; }, write: (fileTempPath: string) => Promise<void>, verify?: (fileTempPath: string) => Promise<void>): Promise<void> {
+	const fileInfo: SymmetricCryptorFileSystemFileInfo | undefined = await fileSystem.stat(filePath);
+	const directoryPath: string = dirname(filePath);
+	const fileTempPath: string = await fileSystem.makeTempFile({
+		directory: directoryPath,
+		prefix: ".symmetric-crypto-",
+		suffix: ".tmp"
+	});
+	try {
+		await write(fileTempPath);
+		await fileSystem.sync(fileTempPath);
+		await verify?.(fileTempPath);
+		const mode: number | null = options.mode ?? fileInfo?.mode ?? null;
+		if (mode !== null) {
+			await fileSystem.chmod(fileTempPath, mode & 0o7777);
+		}
+		if (options.preserveTimestamps && typeof fileInfo !== "undefined" && fileInfo.atime !== null && fileInfo.mtime !== null) {
+			await fileSystem.utime(fileTempPath, fileInfo.atime, fileInfo.mtime);
+		}
+		await fileSystem.rename(fileTempPath, options.destinationPath ?? filePath);
+	} catch (error) {
+		await fileSystem.remove(fileTempPath).catch((): void => { });
+		throw error;
+	}
+	// Flush the directory entry, not all platforms support this.
+	await fileSystem.sync(directoryPath).catch((): void => { });
+}
+/**
+ * Encoding of the key which store as string.
+ */
+export type SymmetricCryptorKeyEncoding =
+	| "base64"
+	| "base64url"
+	| "hex"
+	| "utf8";
+const keyEncodings: readonly SymmetricCryptorKeyEncoding[] = [
+	"base64",
+	"base64url",
+	"hex",
+	"utf8"
+];
+function resolveKeyEncoding(encoding: SymmetricCryptorKeyEncoding = "utf8"): SymmetricCryptorKeyEncoding {
+	if (!keyEncodings.includes(encoding)) {
+		throw new RangeError(`\`${encoding}\` is not a valid key encoding! Only accept these values: ${keyEncodings.join(", ")}`);
+	}
+	return encoding;
+}
+function decodeKey(key: string, encoding: SymmetricCryptorKeyEncoding): Uint8Array {
+	return Uint8Array.from(Buffer.from(key, encoding));
+}
+export interface SymmetricCryptorKeyProviderEnvironmentOptions {
+	/**
+	 * Name of the environment variable which contains the ID of the current key.
+	 * @default {"SYMMETRIC_CRYPTO_KEY_ID"}
+	 */
+	currentKeyIdName?: string;
+	/**
+	 * Encoding of the keys.
+	 * @default {"utf8"}
+	 */
+	encoding?: SymmetricCryptorKeyEncoding;
+	/**
+	 * Prefix of the name of the environment variables which contain the keys, follow by the key ID (e.g.: `SYMMETRIC_CRYPTO_KEY_2024`).
+	 * @default {"SYMMETRIC_CRYPTO_KEY_"}
+	 */
+	keyNamePrefix?: string;
+}
+/**
+ * Key provider which get the keys from the environment variables.
+ * 
+ * > **🛡️ Runtime Permissions**
+ * > 
+ * > - **Environment Variable (Deno: `env`):**
+ * >   - *Resources*
+ */
+export class SymmetricCryptorKeyProviderEnvironment implements SymmetricCryptorKeyProvider {
+	get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorKeyProviderEnvironment";
+	}
+	#currentKeyIdName: string;
+	#encoding: SymmetricCryptorKeyEncoding;
+	#keyNamePrefix: string;
+	/**
+	 * Initialize the key provider.
+	 * @param {SymmetricCryptorKeyProviderEnvironmentOptions} [options={}] Options.
+	 */
+	constructor(options: SymmetricCryptorKeyProviderEnvironmentOptions = {}) {
+		this.#currentKeyIdName = options.currentKeyIdName ?? "SYMMETRIC_CRYPTO_KEY_ID";
+		this.#encoding = resolveKeyEncoding(options.encoding);
+		this.#keyNamePrefix = options.keyNamePrefix ?? "SYMMETRIC_CRYPTO_KEY_";
+	}
+	/**
+	 * Get the ID of the current key.
+	 * @returns {string} ID of the current key.
+	 */
+	getCurrentKeyId(): string {
+		const id: string | undefined = env[this.#currentKeyIdName];
+		if (typeof id === "undefined" || id.length === 0) {
+			throw new SymmetricCryptorKeyError(`Environment variable \`${this.#currentKeyIdName}\` is not defined!`);
+		}
+		return id;
+	}
+	/**
+	 * Get the key by the key ID.
+	 * @param {string} keyId ID of the key.
+	 * @returns {Uint8Array | undefined} Key, or `undefined` when the key is not exist.
+	 */
+	getKey(keyId: string): Uint8Array | undefined {
+		const key: string | undefined = env[`${this.#keyNamePrefix}${keyId}`];
+		return ((typeof key === "undefined" || key.length === 0) ? undefined : decodeKey(key, this.#encoding));
+	}
+}
+export interface SymmetricCryptorKeyProviderKeystoreOptions {
+	/**
+	 * Encoding of the keys.
+	 * @default {"utf8"}
+	 */
+	encoding?: SymmetricCryptorKeyEncoding;
+	/**
+	 * Adapter of the file system, default to use the Deno APIs when available, otherwise use the NodeJS APIs (also available in Bun).
+	 */
+	fileSystem?: SymmetricCryptorFileSystem;
+}
+interface SymmetricCryptorKeystore {
+	current: string;
+	keys: Record<string, string>;
+}
+/**
+ * Key provider which get the keys from a local JSON keystore file, the file is read lazily and cached.
+ *
+ * The keystore file is in the format of `{ "current": "<KeyID>", "keys": { "<KeyID>": "<Key>" } }`.
+ * 
+ * > **🛡️ Runtime Permissions**
+ * > 
+ * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+ * >   - *Resources*
+ */
+export class SymmetricCryptorKeyProviderKeystore implements SymmetricCryptorKeyProvider {
+	get [Symbol.toStringTag](): string {
+		return "SymmetricCryptorKeyProviderKeystore";
+	}
+	#encoding: SymmetricCryptorKeyEncoding;
+	#filePath: string;
+	#fileSystem: SymmetricCryptorFileSystem;
+	#keystore: Promise<SymmetricCryptorKeystore> | undefined = undefined;
+	/**
+	 * Initialize the key provider.
+	 * @param {string | URL} filePath Path of the keystore file.
+	 * @param {SymmetricCryptorKeyProviderKeystoreOptions} [options={}] Options.
+	 */
+	constructor(filePath: string | URL, options: SymmetricCryptorKeyProviderKeystoreOptions = {}) {
+		this.#encoding = resolveKeyEncoding(options.encoding);
+		this.#filePath = resolvePath(filePath);
+		this.#fileSystem = options.fileSystem ?? resolveFileSystemDefault();
+	}
+	async #load(): Promise<SymmetricCryptorKeystore> {
+		const keystore: unknown = JSON.parse(new TextDecoder().decode(await this.#fileSystem.readFile(this.#filePath)));
+		if (!(
+			typeof keystore === "object" &&
+			keystore !== null &&
+			typeof (keystore as Partial<SymmetricCryptorKeystore>).current === "string" &&
+			typeof (keystore as Partial<SymmetricCryptorKeystore>).keys === "object" &&
+			(keystore as Partial<SymmetricCryptorKeystore>).keys !== null &&
+			Object.values((keystore as SymmetricCryptorKeystore).keys).every((key: unknown): boolean => {
+				return (typeof key === "string");
+			})
+		)) {
+			throw new SyntaxError(`File \`${this.#filePath}\` is not a valid keystore!`);
+		}
+		return keystore as SymmetricCryptorKeystore;
+	}
+	#getKeystore(): Promise<SymmetricCryptorKeystore> {
+		this.#keystore ??= this.#load();
+		this.#keystore.catch((): void => {
+			this.#keystore = undefined;
+		});
+		return this.#keystore;
+	}
+	/**
+	 * Get the ID of the current key.
+	 * @returns {Promise<string>} ID of the current key.
+	 */
+	async getCurrentKeyId(): Promise<string> {
+		return (await this.#getKeystore()).current;
+	}
+	/**
+	 * Get the key by the key ID.
+	 * @param {string} keyId ID of the key.
+	 * @returns {Promise<Uint8Array | undefined>} Key, or `undefined` when the key is not exist.
+	 */
+	async getKey(keyId: string): Promise<Uint8Array | undefined> {
+		const { keys }: SymmetricCryptorKeystore = await this.#getKeystore();
+		return (Object.hasOwn(keys, keyId) ? decodeKey(keys[keyId], this.#encoding) : undefined);
+	}
+	/**
+	 * Discard the cached keystore, the keystore file will read again on next use, useful after the keystore file is changed.
+	 * @returns {void}
+	 */
+	reload(): void {
+		this.#keystore = undefined;
+	}
+}
 /**
  * A password based cryptor, with standard functions.
  */
@@ -6,8 +521,223 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	override get [Symbol.toStringTag](): string {
 		return "SymmetricCryptor";
 	}
+	#fileSystem: SymmetricCryptorFileSystem;
 	/**
-	 * Decrypt the file in place. File will not decrypted if fail to decrypt.
+	 * Initialize the symmetric cryptor.
+	 * @param {SymmetricCryptorKeyInput | SymmetricCryptorKeyType} key Key of the symmetric cryptor.
+	 * @param {SymmetricCryptorStandardOptions} [options={}] Options of the symmetric cryptor.
+	 */
+	constructor(key: SymmetricCryptorKeyInput | SymmetricCryptorKeyType, options?: SymmetricCryptorStandardOptions);
+	/**
+	 * Initialize the symmetric cryptor.
+	 * @param {(SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[]} keys Keys of the symmetric cryptor.
+	 * @param {Omit<SymmetricCryptorStandardOptions, "times">} [options={}] Options of the symmetric cryptor.
+	 */
+	constructor(keys: readonly (SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[], options?: Omit<SymmetricCryptorStandardOptions, "times">);
+	constructor(keys: SymmetricCryptorKeyInput | SymmetricCryptorKeyType | readonly (SymmetricCryptorKeyInput | SymmetricCryptorKeyType)[], options: SymmetricCryptorStandardOptions = {}) {
+		super(keys as SymmetricCryptorKeyInput | SymmetricCryptorKeyType, options);
+		this.#fileSystem = options.fileSystem ?? resolveFileSystemDefault();
+	}
+	async #cryptFile(mode: "decrypt" | "encrypt", sourcePath: string, destinationPath: string, options: SymmetricCryptorFileEncryptOptions): Promise<void> {
+		const { onProgress }: SymmetricCryptorFileEncryptOptions = options;
+		const bytesTotal: number = (await this.#fileSystem.stat(sourcePath))?.size ?? 0;
+		const source: ReadableStream<Uint8Array> = await this.#fileSystem.readFileStream(sourcePath);
+		let destination: WritableStream<Uint8Array>;
+		try {
+			destination = await this.#fileSystem.writeFileStream(destinationPath);
+		} catch (error) {
+			await source.cancel().catch((): void => { });
+			throw error;
+		}
+		let bytesProcessed: number = 0;
+		try {
+			await source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+				transform(chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>): void {
+					bytesProcessed += chunk.length;
+					onProgress?.({
+						bytesProcessed,
+						bytesTotal
+					});
+					controller.enqueue(chunk);
+				}
+			})).pipeThrough((mode === "encrypt") ? this.encryptStream(options) : this.decryptStream(options)).pipeTo(destination);
+		} catch (error) {
+			await this.#fileSystem.remove(destinationPath).catch((): void => { });
+			throw error;
+		}
+	}
+	async #cryptDirectory(mode: "decrypt" | "encrypt", directoryPath: string | URL, options: SymmetricCryptorDirectoryEncryptOptions): Promise<SymmetricCryptorDirectoryReport> {
+		const {
+			concurrency = 4,
+			exclude = [],
+			include = ["**"],
+			suffix
+		}: SymmetricCryptorDirectoryEncryptOptions = options;
+		resolveConcurrency(concurrency, "options.concurrency");
+		if (typeof suffix !== "undefined" && !(suffix.length > 0 && !/[\\/]/.test(suffix))) {
+			throw new RangeError(`\`${suffix}\` (parameter \`options.suffix\`) is not a string which is non empty, and without path separator!`);
+		}
+		const directoryPathResolve: string = resolvePath(directoryPath);
+		const excludePatterns: RegExp[] = exclude.map(globToRegExp);
+		const includePatterns: RegExp[] = include.map(globToRegExp);
+		// Collect all of the files first, the temporary files of the in place crypto should not walk into.
+		const filesRelativePath: string[] = (await Array.fromAsync(walkDirectory(this.#fileSystem, directoryPathResolve, "", excludePatterns))).filter((fileRelativePath: string): boolean => {
+			return includePatterns.some((pattern: RegExp): boolean => {
+				return pattern.test(fileRelativePath);
+			});
+		}).sort();
+		const report: SymmetricCryptorDirectoryReport = {
+			failures: [],
+			skips: [],
+			successes: []
+		};
+		await mapConcurrent(filesRelativePath, concurrency, async (fileRelativePath: string): Promise<void> => {
+			try {
+				const filePath: string = joinPath(directoryPathResolve, fileRelativePath);
+				if (await isFileEncrypted(this.#fileSystem, filePath) !== (mode === "decrypt")) {
+					report.skips.push(fileRelativePath);
+					return;
+				}
+				let destinationRelativePath: string = fileRelativePath;
+				if (typeof suffix !== "undefined") {
+					if (mode === "encrypt") {
+						destinationRelativePath = `${fileRelativePath}${suffix}`;
+					} else if (fileRelativePath.endsWith(suffix) && fileRelativePath.length > suffix.length && !fileRelativePath.endsWith(`/${suffix}`)) {
+						destinationRelativePath = fileRelativePath.slice(0, fileRelativePath.length - suffix.length);
+					}
+				}
+				const destinationPath: string = joinPath(directoryPathResolve, destinationRelativePath);
+				if (destinationPath === filePath) {
+					await this.#cryptFileInPlace(mode, filePath, options);
+				} else {
+					// Claim the destination exclusively, write straight to it, and remove the source only after the destination is complete.
+					if (!await this.#fileSystem.createFile(destinationPath)) {
+						throw new Error(`File \`${destinationPath}\` is already exist!`);
+					}
+					try {
+						await this.#cryptFileInPlace(mode, filePath, options, destinationPath);
+						await this.#fileSystem.remove(filePath);
+					} catch (error) {
+						await this.#fileSystem.remove(destinationPath).catch((): void => { });
+						throw error;
+					}
+				}
+				report.successes.push({
+					destinationPath: destinationRelativePath,
+					sourcePath: fileRelativePath
+				});
+			} catch (error) {
+				report.failures.push({
+					error,
+					sourcePath: fileRelativePath
+				});
+			}
+		});
+		for (const list of [report.failures, report.successes]) {
+			list.sort((a: { sourcePath: string; }, b: { sourcePath: string; }): number => {
+				return ((a.sourcePath < b.sourcePath) ? -1 : ((a.sourcePath > b.sourcePath) ? 1 : 0));
+			});
+		}
+		report.skips.sort();
+		return report;
+	}
+	async #cryptFileInPlace(mode: "decrypt" | "encrypt", filePath: string, options: SymmetricCryptorFileEncryptInPlaceOptions, destinationPath: string = filePath): Promise<void> {
+		return await replaceFileAtomic(this.#fileSystem, filePath, {
+			destinationPath,
+			preserveTimestamps: true
+		}, async (fileTempPath: string): Promise<void> => {
+			await this.#cryptFile(mode, filePath, fileTempPath, options);
+		}, (mode === "encrypt" && (options.verify ?? false)) ? async (fileTempPath: string): Promise<void> => {
+			if (!await isBytesStreamEqual((await this.#fileSystem.readFileStream(fileTempPath)).pipeThrough(this.decryptStream(options)), await this.#fileSystem.readFileStream(filePath))) {
+				throw new Error(`Unable to verify the encrypted file, the decrypted data is not match!`);
+			}
+		} : undefined);
+	}
+	async #writeFileAtomic(filePath: string, options: SymmetricCryptorWriteFileOptions, encode: () => Promise<Uint8Array>, verify: (content: Uint8Array) => Promise<boolean>): Promise<void> {
+		const {
+			create = true,
+			createNew = false,
+			mode,
+			signal,
+			verify: verifyEnable = false
+		}: SymmetricCryptorWriteFileOptions = options;
+		const fileExist: boolean = typeof await this.#fileSystem.lstat(filePath) !== "undefined";
+		if (fileExist && createNew) {
+			throw new Error(`File \`${filePath}\` is already exist!`);
+		}
+		if (!fileExist && !(create || createNew)) {
+			throw new Error(`File \`${filePath}\` is not exist!`);
+		}
+		const content: Uint8Array = await encode();
+		signal?.throwIfAborted();
+		// New file is claim exclusively before write, which is also take the default permission mode of the platform.
+		let fileCreated: boolean = false;
+		if (!fileExist) {
+			fileCreated = await this.#fileSystem.createFile(filePath);
+			if (!fileCreated && createNew) {
+				throw new Error(`File \`${filePath}\` is already exist!`);
+			}
+		}
+		try {
+			await replaceFileAtomic(this.#fileSystem, filePath, {
+				mode,
+				preserveTimestamps: false
+			}, async (fileTempPath: string): Promise<void> => {
+				await this.#fileSystem.writeFile(fileTempPath, content, { signal });
+			}, verifyEnable ? async (fileTempPath: string): Promise<void> => {
+				if (!await verify(await this.#fileSystem.readFile(fileTempPath))) {
+					throw new Error(`Unable to verify the encrypted file, the decrypted data is not match!`);
+				}
+			} : undefined);
+		} catch (error) {
+			if (fileCreated) {
+				await this.#fileSystem.remove(filePath).catch((): void => { });
+			}
+			throw error;
+		}
+	}
+	async #readFileIfExist(filePath: string): Promise<string | undefined> {
+		return ((typeof await this.#fileSystem.lstat(filePath) === "undefined") ? undefined : new TextDecoder().decode(await this.#fileSystem.readFile(filePath)));
+	}
+	async #decryptValue(value: string, additionalData: string): Promise<string> {
+		return (value.startsWith(encryptedValuePrefix) ? await this.decrypt(value.slice(encryptedValuePrefix.length), { additionalData }) : value);
+	}
+	/**
+	 * Encrypt the value, keep the previous encrypted value when it is decrypt to the same value, to avoid the unnecessary changes of the file.
+	 */
+	async #encryptValue(value: string, valuePrevious: unknown, additionalData: string): Promise<string> {
+		if (typeof valuePrevious === "string" && valuePrevious.startsWith(encryptedValuePrefix)) {
+			try {
+				if (await this.#decryptValue(valuePrevious, additionalData) === value) {
+					return valuePrevious;
+				}
+			} catch {
+				// Previous value is unable to decrypt (e.g.: the key is rotated), encrypt again.
+			}
+		}
+		return `${encryptedValuePrefix}${await this.encrypt(value, { additionalData })}`;
+	}
+	/**
+	 * Decrypt the file to another file, the file is process in a stream, therefore the memory usage is bounded.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
+	 * >   - *Resources*
+	 * @param {string | URL} sourcePath Path of the source file.
+	 * @param {string | URL} destinationPath Path of the destination file.
+	 * @param {SymmetricCryptorFileDecryptOptions} [options={}] Options.
+	 * @returns {Promise<void>}
+	 */
+	async decryptFile(sourcePath: string | URL, destinationPath: string | URL, options: SymmetricCryptorFileDecryptOptions = {}): Promise<void> {
+		return await this.#cryptFile("decrypt", resolvePath(sourcePath), resolvePath(destinationPath), options);
+	}
+	/**
+	 * Decrypt the file in place, the file is process in a stream, therefore the memory usage is bounded. File will not decrypted if fail to decrypt.
+	 *
+	 * The file is write to a temporary file in the same directory and then rename over the file atomically, with the mode and the timestamps preserved.
 	 * 
 	 * > **🛡️ Runtime Permissions**
 	 * > 
@@ -16,15 +746,65 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
 	 * >   - *Resources*
 	 * @param {string | URL} filePath Path of the file.
+	 * @param {SymmetricCryptorFileDecryptOptions} [options={}] Options.
 	 * @returns {Promise<void>}
 	 */
-	async decryptFileInPlace(filePath: string | URL): Promise<void> {
-		const context: Uint8Array = await Deno.readFile(filePath);
-		const decrypted: Uint8Array = await this.decrypt(context);
-		return await Deno.writeFile(filePath, decrypted, { create: false });
+	async decryptFileInPlace(filePath: string | URL, options: SymmetricCryptorFileDecryptOptions = {}): Promise<void> {
+		return await this.#cryptFileInPlace("decrypt", resolvePath(filePath), options);
 	}
 	/**
-	 * Encrypt the file in place. File will not encrypted if fail to encrypt.
+	 * Decrypt the files in the directory recursively, files which are not encrypted (detect by the header of the cipher text) are skipped. Files are process in place, a file fail to decrypt will not abort the others, but report in the failures.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
+	 * >   - *Resources*
+	 * @param {string | URL} directoryPath Path of the directory.
+	 * @param {SymmetricCryptorDirectoryDecryptOptions} [options={}] Options.
+	 * @returns {Promise<SymmetricCryptorDirectoryReport>} Report.
+	 */
+	async decryptDirectory(directoryPath: string | URL, options: SymmetricCryptorDirectoryDecryptOptions = {}): Promise<SymmetricCryptorDirectoryReport> {
+		return await this.#cryptDirectory("decrypt", directoryPath, options);
+	}
+	/**
+	 * Encrypt the files in the directory recursively, files which are already encrypted (detect by the header of the cipher text) are skipped. Files are process in place, a file fail to encrypt will not abort the others, but report in the failures.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
+	 * >   - *Resources*
+	 * @param {string | URL} directoryPath Path of the directory.
+	 * @param {SymmetricCryptorDirectoryEncryptOptions} [options={}] Options.
+	 * @returns {Promise<SymmetricCryptorDirectoryReport>} Report.
+	 */
+	async encryptDirectory(directoryPath: string | URL, options: SymmetricCryptorDirectoryEncryptOptions = {}): Promise<SymmetricCryptorDirectoryReport> {
+		return await this.#cryptDirectory("encrypt", directoryPath, options);
+	}
+	/**
+	 * Encrypt the file to another file, the file is process in a stream, therefore the memory usage is bounded.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
+	 * >   - *Resources*
+	 * @param {string | URL} sourcePath Path of the source file.
+	 * @param {string | URL} destinationPath Path of the destination file.
+	 * @param {SymmetricCryptorFileEncryptOptions} [options={}] Options.
+	 * @returns {Promise<void>}
+	 */
+	async encryptFile(sourcePath: string | URL, destinationPath: string | URL, options: SymmetricCryptorFileEncryptOptions = {}): Promise<void> {
+		return await this.#cryptFile("encrypt", resolvePath(sourcePath), resolvePath(destinationPath), options);
+	}
+	/**
+	 * Encrypt the file in place, the file is process in a stream, therefore the memory usage is bounded. File will not encrypted if fail to encrypt.
+	 *
+	 * The file is write to a temporary file in the same directory and then rename over the file atomically, with the mode and the timestamps preserved.
 	 * 
 	 * > **🛡️ Runtime Permissions**
 	 * > 
@@ -33,12 +813,63 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
 	 * >   - *Resources*
 	 * @param {string | URL} filePath Path of the file.
+	 * @param {SymmetricCryptorFileEncryptInPlaceOptions} [options={}] Options.
 	 * @returns {Promise<void>}
 	 */
-	async encryptFileInPlace(filePath: string | URL): Promise<void> {
-		const context: Uint8Array = await Deno.readFile(filePath);
-		const encrypted: Uint8Array = await this.encrypt(context);
-		return await Deno.writeFile(filePath, encrypted, { create: false });
+	async encryptFileInPlace(filePath: string | URL, options: SymmetricCryptorFileEncryptInPlaceOptions = {}): Promise<void> {
+		return await this.#cryptFileInPlace("encrypt", resolvePath(filePath), options);
+	}
+	/**
+	 * Read the config file (e.g.: JSON), which the string leaves are encrypted individually by method {@linkcode writeEncryptedConfigFile}; String leaves which are not encrypted (i.e.: not start with `enc:`) are return as is.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * @template {unknown} T
+	 * @param {string | URL} filePath Path of the file.
+	 * @param {SymmetricCryptorReadConfigFileOptions} [options={}] Options.
+	 * @returns {Promise<T>} Decrypted config.
+	 */
+	async readEncryptedConfigFile<T = unknown>(filePath: string | URL, options: SymmetricCryptorReadConfigFileOptions = {}): Promise<T> {
+		const { format = configFileFormatJSON }: SymmetricCryptorReadConfigFileOptions = options;
+		const config: unknown = format.parse(new TextDecoder().decode(await this.#fileSystem.readFile(resolvePath(filePath), options)));
+		return await mapStringLeaves(config, (value: string, path: readonly string[]): Promise<string> => {
+			return this.#decryptValue(value, resolveConfigValueAdditionalData(path));
+		}) as T;
+	}
+	/**
+	 * Read the dotenv file, which the values are encrypted individually by method {@linkcode writeEncryptedEnvFile}; Values which are not encrypted (i.e.: not start with `enc:`) are return as is.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **Environment Variable (Deno: `env`; NodeJS: N/A):**
+	 * >   - *Resources*, only when the property {@linkcode SymmetricCryptorReadEnvFileOptions.load} is `true`.
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * @param {string | URL} filePath Path of the file.
+	 * @param {SymmetricCryptorReadEnvFileOptions} [options={}] Options.
+	 * @returns {Promise<Record<string, string>>} Decrypted variables.
+	 */
+	async readEncryptedEnvFile(filePath: string | URL, options: SymmetricCryptorReadEnvFileOptions = {}): Promise<Record<string, string>> {
+		const {
+			load = false,
+			override = false
+		}: SymmetricCryptorReadEnvFileOptions = options;
+		const result: Record<string, string> = {};
+		for (const line of parseDotEnv(new TextDecoder().decode(await this.#fileSystem.readFile(resolvePath(filePath), options)))) {
+			if (line.type === "entry") {
+				result[line.key] = await this.#decryptValue(line.value, resolveEnvValueAdditionalData(line.key));
+			}
+		}
+		if (load) {
+			for (const [key, value] of Object.entries(result)) {
+				if (override || typeof env[key] === "undefined") {
+					env[key] = value;
+				}
+			}
+		}
+		return result;
 	}
 	/**
 	 * Read the encrypted file.
@@ -48,11 +879,11 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
 	 * >   - *Resources*
 	 * @param {string | URL} filePath Path of the file.
-	 * @param {Deno.ReadFileOptions} [options={}] Options.
+	 * @param {SymmetricCryptorReadFileOptions} [options={}] Options.
 	 * @returns {Promise<Uint8Array>} Decrypted data of the file.
 	 */
-	async readEncryptedFile(filePath: string | URL, options?: Deno.ReadFileOptions): Promise<Uint8Array> {
-		const context: Uint8Array = await Deno.readFile(filePath, options);
+	async readEncryptedFile(filePath: string | URL, options?: SymmetricCryptorReadFileOptions): Promise<Uint8Array> {
+		const context: Uint8Array = await this.#fileSystem.readFile(resolvePath(filePath), options);
 		return await this.decrypt(context);
 	}
 	/**
@@ -63,14 +894,103 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
 	 * >   - *Resources*
 	 * @param {string | URL} filePath Path of the file.
-	 * @param {Deno.ReadFileOptions} [options={}] Options.
+	 * @param {SymmetricCryptorReadFileOptions} [options={}] Options.
 	 * @returns {Promise<string>} Decrypted text data of the file.
 	 */
-	async readEncryptedTextFile(filePath: string | URL, options?: Deno.ReadFileOptions): Promise<string> {
+	async readEncryptedTextFile(filePath: string | URL, options?: SymmetricCryptorReadFileOptions): Promise<string> {
 		return new TextDecoder().decode(await this.readEncryptedFile(filePath, options));
 	}
+	/**
+	 * Write the config file (e.g.: JSON), which the string leaves are encrypted individually, and the keys and the other values stay readable for the diffs.
+	 *
+	 * Each string leaf is bound to its path as the additional authenticated data, therefore the encrypted value is not able to move to another path. String leaves which are not changed keep the previous encrypted value in the file. The file is write to a temporary file in the same directory and then rename over the file atomically, with the mode preserved.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
+	 * >   - *Resources*
+	 * @param {string | URL} filePath Path of the file.
+	 * @param {unknown} value Config.
+	 * @param {SymmetricCryptorWriteConfigFileOptions} [options={}] Options.
+	 * @returns {Promise<void>}
+	 */
+	async writeEncryptedConfigFile(filePath: string | URL, value: unknown, options: SymmetricCryptorWriteConfigFileOptions = {}): Promise<void> {
+		const { format = configFileFormatJSON }: SymmetricCryptorWriteConfigFileOptions = options;
+		const filePathResolve: string = resolvePath(filePath);
+		return await this.#writeFileAtomic(filePathResolve, options, async (): Promise<Uint8Array> => {
+			const textPrevious: string | undefined = await this.#readFileIfExist(filePathResolve);
+			const configPrevious: unknown = (typeof textPrevious === "undefined") ? undefined : format.parse(textPrevious);
+			return new TextEncoder().encode(format.stringify(await mapStringLeaves(value, (leaf: string, path: readonly string[]): Promise<string> => {
+				return this.#encryptValue(leaf, getValueAtPath(configPrevious, path), resolveConfigValueAdditionalData(path));
+			})));
+		}, async (content: Uint8Array): Promise<boolean> => {
+			return (format.stringify(await mapStringLeaves(format.parse(new TextDecoder().decode(content)), (leaf: string, path: readonly string[]): Promise<string> => {
+				return this.#decryptValue(leaf, resolveConfigValueAdditionalData(path));
+			})) === format.stringify(value));
+		});
+	}
+	/**
+	 * Write the dotenv file, which the values are encrypted individually (e.g.: `KEY=enc:...`), and the keys stay readable for the diffs.
+	 *
+	 * Each value is bound to its key as the additional authenticated data, therefore the encrypted value is not able to move to another key. When the file is exist, the comments and the order of the variables are preserved, variables which are not changed keep the previous encrypted value, variables which are not in the data are removed, and the new variables are append to the end. The file is write to a temporary file in the same directory and then rename over the file atomically, with the mode preserved.
+	 * 
+	 * > **🛡️ Runtime Permissions**
+	 * > 
+	 * > - **File System - Read (Deno: `read`; NodeJS: `fs-read`):**
+	 * >   - *Resources*
+	 * > - **File System - Write (Deno: `write`; NodeJS: `fs-write`):**
+	 * >   - *Resources*
+	 * @param {string | URL} filePath Path of the file.
+	 * @param {Record<string, string>} data Variables.
+	 * @param {SymmetricCryptorWriteFileOptions} [options={}] Options.
+	 * @returns {Promise<void>}
+	 */
+	async writeEncryptedEnvFile(filePath: string | URL, data: Record<string, string>, options: SymmetricCryptorWriteFileOptions = {}): Promise<void> {
+		const filePathResolve: string = resolvePath(filePath);
+		return await this.#writeFileAtomic(filePathResolve, options, async (): Promise<Uint8Array> => {
+			const textPrevious: string | undefined = await this.#readFileIfExist(filePathResolve);
+			const keysWritten: Set<string> = new Set<string>();
+			const lines: DotEnvLine[] = [];
+			for (const line of (typeof textPrevious === "undefined") ? [] : parseDotEnv(textPrevious)) {
+				if (line.type === "other") {
+					lines.push(line);
+					continue;
+				}
+				if (!Object.hasOwn(data, line.key) || keysWritten.has(line.key)) {
+					continue;
+				}
+				const value: string = await this.#encryptValue(data[line.key], line.value, resolveEnvValueAdditionalData(line.key));
+				lines.push((value === line.value) ? line : createDotEnvEntry(line.key, value, line.export));
+				keysWritten.add(line.key);
+			}
+			// Keep the trailing new line at the end of the file.
+			const lineLast: DotEnvLine | undefined = lines.at(-1);
+			const trailing: DotEnvLine[] = (typeof lineLast !== "undefined" && lineLast.type === "other" && lineLast.line.length === 0) ? lines.splice(-1) : [{
+				type: "other",
+				line: ""
+			}];
+			for (const [key, value] of Object.entries(data)) {
+				if (!keysWritten.has(key)) {
+					lines.push(createDotEnvEntry(key, await this.#encryptValue(value, undefined, resolveEnvValueAdditionalData(key))));
+				}
+			}
+			return new TextEncoder().encode(stringifyDotEnv([...lines, ...trailing]));
+		}, async (content: Uint8Array): Promise<boolean> => {
+			const result: Record<string, string> = {};
+			for (const line of parseDotEnv(new TextDecoder().decode(content))) {
+				if (line.type === "entry") {
+					result[line.key] = await this.#decryptValue(line.value, resolveEnvValueAdditionalData(line.key));
+				}
+			}
+			return (JSON.stringify(Object.entries(result).sort()) === JSON.stringify(Object.entries(data).sort()));
+		});
+	}
 	/**
 	 * Write the encrypted file.
+	 *
+	 * The file is write to a temporary file in the same directory and then rename over the file atomically, with the mode preserved.
 	 * 
 	 * > **🛡️ Runtime Permissions**
 	 * > 
@@ -78,14 +998,14 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	 * >   - *Resources*
 	 * @param {string | URL} filePath Path of the file.
 	 * @param {Uint8Array} data Data of the file.
-	 * @param {Omit<Deno.WriteFileOptions, "append">} [options={}] Options.
+	 * @param {SymmetricCryptorWriteFileOptions} [options={}] Options.
 	 * @returns {Promise<void>}
 	 */
-	async writeEncryptedFile(filePath: string | URL, data: Uint8Array, options?: Omit<Deno.WriteFileOptions, "append">): Promise<void> {
-		const encrypted: Uint8Array = await this.encrypt(data);
-		return await Deno.writeFile(filePath, encrypted, {
-			...options,
-			append: false
+	async writeEncryptedFile(filePath: string | URL, data: Uint8Array, options: SymmetricCryptorWriteFileOptions = {}): Promise<void> {
+		return await this.#writeFileAtomic(resolvePath(filePath), options, async (): Promise<Uint8Array> => {
+			return await this.encrypt(data);
+		}, async (content: Uint8Array): Promise<boolean> => {
+			return await isBytesStreamEqual(ReadableStream.from([await this.decrypt(content)]), ReadableStream.from([data]));
 		});
 	}
 	/**
@@ -97,10 +1017,10 @@ export class SymmetricCryptor extends SymmetricCryptorBasic {
 	 * >   - *Resources*
 	 * @param {string | URL} filePath Path of the file.
 	 * @param {string} data Text data of the file.
-	 * @param {Omit<Deno.WriteFileOptions, "append">} [options={}] Options.
+	 * @param {SymmetricCryptorWriteFileOptions} [options={}] Options.
 	 * @returns {Promise<void>}
 	 */
-	async writeEncryptedTextFile(filePath: string | URL, data: string, options?: Omit<Deno.WriteFileOptions, "append">): Promise<void> {
+	async writeEncryptedTextFile(filePath: string | URL, data: string, options?: SymmetricCryptorWriteFileOptions): Promise<void> {
 		return await this.writeEncryptedFile(filePath, new TextEncoder().encode(data), options);
 	}
 }